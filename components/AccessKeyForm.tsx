@@ -0,0 +1,53 @@
+import { FormEvent, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+type Props = {
+  onSignedIn: () => void;
+};
+
+export default function AccessKeyForm({ onSignedIn }: Props) {
+  const { t } = useTranslation();
+  const [key, setKey] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!key.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: key.trim() }),
+      });
+      if (res.ok) return onSignedIn();
+      const data = await res.json().catch(() => ({}));
+      setError(res.status === 401 ? t('access.invalid') : data?.error || t('chat.requestFailed', { status: res.status }));
+    } catch {
+      setError(t('access.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="w-full max-w-sm rounded-md border bg-white p-4 text-sm">
+      <div className="mb-1 font-semibold">{t('access.title')}</div>
+      <p className="mb-3 text-gray-600">{t('access.explain')}</p>
+      <input
+        type="password"
+        autoComplete="current-password"
+        value={key}
+        onChange={e => setKey(e.target.value)}
+        placeholder={t('access.placeholder')}
+        className="mb-2 w-full rounded border px-2 py-1"
+      />
+      {error && <div className="mb-2 text-red-700">{error}</div>}
+      <button type="submit" disabled={busy || !key.trim()} className="rounded bg-black px-3 py-1 text-white disabled:opacity-50">
+        {t('access.submit')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,72 @@
+import { useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { DocumentSummary } from '@/lib/documents';
+
+type Props = {
+  documents: DocumentSummary[];
+  uploading: boolean;
+  error?: string | null;
+  onUpload: (files: File[]) => void;
+  onRemove: (documentId: string) => void;
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export default function DocumentsPanel({ documents, uploading, error, onUpload, onRemove }: Props) {
+  const { t } = useTranslation();
+  const fileInput = useRef<HTMLInputElement | null>(null);
+
+  const onFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) onUpload(files);
+  };
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm font-semibold">{t('documents.title', { count: documents.length })}</div>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={uploading}
+          className="rounded border px-3 py-1 text-xs disabled:opacity-50"
+        >
+          {uploading ? t('documents.uploading') : t('documents.attach')}
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          multiple
+          accept=".pdf,.docx,.txt,.md,.markdown,application/pdf,text/plain,text/markdown"
+          onChange={onFiles}
+          className="hidden"
+        />
+      </div>
+      <div className="text-xs text-gray-500">{t('documents.hint')}</div>
+      {error && <div className="mt-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">{error}</div>}
+      {documents.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {documents.map(d => (
+            <li key={d.id} className="flex items-center justify-between gap-2">
+              <span className="break-all">
+                {d.name}
+                <span className="ml-2 text-xs text-gray-500">
+                  {d.type.toUpperCase()} · {formatSize(d.size)} · {t('documents.excerpts', { count: d.chunkCount })}
+                  {d.truncated && <> · {t('documents.truncated')}</>}
+                </span>
+              </span>
+              <button
+                onClick={() => window.confirm(t('documents.confirmRemove', { name: d.name })) && onRemove(d.id)}
+                disabled={uploading}
+                className="shrink-0 text-xs text-red-600 underline disabled:opacity-50"
+              >
+                {t('documents.remove')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AgentState } from '@/lib/agentState';
+import { answeredSections, FRIA_SECTIONS, friaFor, FriaRecord, friaRequired, FriaSectionId } from '@/lib/fria';
+import { rolesForUseCase } from '@/lib/roles';
+
+type Props = {
+  state: AgentState;
+  exportHref: (useCaseId: string, format: 'md' | 'html' | 'pdf') => string;
+  onUpdate: (record: FriaRecord) => void;
+  // Resolves with the assistant's draft for one section.
+  onDraft: (useCaseId: string, section: FriaSectionId, answers: FriaRecord['answers']) => Promise<string>;
+};
+
+const inputClass = 'w-full rounded border px-2 py-1 text-sm outline-none';
+
+export default function FriaWizard({ state, exportHref, onUpdate, onDraft }: Props) {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [drafting, setDrafting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const useCases = (state.useCases || []).filter(u => friaRequired(u, rolesForUseCase(state, u)));
+  if (useCases.length === 0) return null;
+
+  const useCase = useCases.find(u => u.id === selectedId) || useCases[0];
+  const record = friaFor(state, useCase);
+  const section = FRIA_SECTIONS[Math.min(step, FRIA_SECTIONS.length - 1)];
+  const answered = answeredSections(record);
+
+  const update = (patch: Partial<FriaRecord>) => onUpdate({ ...record, ...patch, updatedAt: new Date().toISOString() });
+
+  const setAnswer = (id: FriaSectionId, text: string) =>
+    // Editing a completed assessment reopens it.
+    update({ answers: { ...record.answers, [id]: text }, status: 'draft', completedAt: undefined });
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setStep(0);
+    setError(null);
+  };
+
+  const draft = async () => {
+    if (record.answers[section.id]?.trim() && !window.confirm(t('fria.replaceConfirm'))) return;
+    setDrafting(true);
+    setError(null);
+    try {
+      setAnswer(section.id, await onDraft(useCase.id, section.id, record.answers));
+    } catch (e: any) {
+      setError(e?.message || t('fria.draftFailed'));
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold">{t('fria.title')}</div>
+        <div className="flex gap-2 text-xs">
+          {(['md', 'html', 'pdf'] as const).map(f => (
+            <a key={f} href={exportHref(useCase.id, f)} target={f === 'html' ? '_blank' : undefined} rel="noreferrer" className="rounded border px-2 py-0.5 uppercase">
+              {f}
+            </a>
+          ))}
+        </div>
+      </div>
+      <div className="mb-3 text-xs text-gray-500">{t('fria.hint')}</div>
+
+      {useCases.length > 1 && (
+        <select value={useCase.id} onChange={e => select(e.target.value)} className={`${inputClass} mb-3`}>
+          {useCases.map(u => {
+            const r = friaFor(state, u);
+            return (
+              <option key={u.id} value={u.id}>
+                {u.name || u.id} — {r.status === 'complete' ? t('fria.complete') : t('fria.progress', { answered: answeredSections(r), total: FRIA_SECTIONS.length })}
+              </option>
+            );
+          })}
+        </select>
+      )}
+
+      <ol className="mb-3 flex flex-wrap gap-1 text-xs">
+        {FRIA_SECTIONS.map((s, i) => (
+          <li key={s.id}>
+            <button
+              onClick={() => setStep(i)}
+              disabled={drafting}
+              className={`rounded px-2 py-0.5 ${i === step ? 'bg-gray-900 text-white' : record.answers[s.id]?.trim() ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {i + 1}. {t(`fria.sections.${s.id}.title`)}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-2 text-sm">
+        <div>
+          <div className="font-medium">{t(`fria.sections.${section.id}.title`)} <span className="text-xs font-normal text-gray-500">{section.article}</span></div>
+          <div className="text-xs text-gray-500">{t(`fria.sections.${section.id}.guidance`)}</div>
+        </div>
+        <textarea
+          value={record.answers[section.id] || ''}
+          onChange={e => setAnswer(section.id, e.target.value)}
+          rows={6}
+          disabled={drafting}
+          className={inputClass}
+        />
+        {error && <div className="text-xs text-red-600">{error}</div>}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <button onClick={draft} disabled={drafting} className="rounded border px-3 py-1 text-xs disabled:opacity-50">
+            {drafting ? t('fria.drafting') : t('fria.draft')}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={() => setStep(step - 1)} disabled={step === 0 || drafting} className="rounded border px-3 py-1 text-xs disabled:opacity-50">
+              {t('fria.back')}
+            </button>
+            {step < FRIA_SECTIONS.length - 1 ? (
+              <button onClick={() => setStep(step + 1)} disabled={drafting} className="rounded border px-3 py-1 text-xs disabled:opacity-50">
+                {t('fria.next')}
+              </button>
+            ) : record.status === 'complete' ? (
+              <span className="rounded bg-green-50 px-3 py-1 text-xs text-green-700">
+                {t('fria.completedOn', { date: record.completedAt?.slice(0, 10) || '' })}
+              </span>
+            ) : (
+              <button
+                onClick={() => update({ status: 'complete', completedAt: new Date().toISOString() })}
+                disabled={answered < FRIA_SECTIONS.length}
+                title={answered < FRIA_SECTIONS.length ? t('fria.answerAll') : undefined}
+                className="rounded bg-gray-900 px-3 py-1 text-xs text-white disabled:opacity-50"
+              >
+                {t('fria.markComplete')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { ChangeSource, FieldChange, formatPath, StateChange } from '@/lib/stateHistory';
+
+type Props = {
+  changes: StateChange[];
+  disabled?: boolean;
+  notice?: string | null;
+  onUndo: (changeId: string) => void;
+  onRestore: (changeId: string) => void;
+};
+
+const sourceStyles: Record<ChangeSource, string> = {
+  model: 'bg-purple-50 text-purple-700',
+  manual: 'bg-blue-50 text-blue-700',
+  import: 'bg-teal-50 text-teal-700',
+  undo: 'bg-gray-100 text-gray-700',
+  restore: 'bg-gray-100 text-gray-700',
+};
+
+function formatValue(v: unknown): string {
+  if (v === undefined) return '∅';
+  if (v && typeof v === 'object' && !Array.isArray(v)) {
+    const o = v as Record<string, unknown>;
+    const label = o.name || o.title || o.useCaseName;
+    if (typeof label === 'string') return `“${label}”`;
+  }
+  const s = Array.isArray(v) ? v.map(x => (typeof x === 'string' ? x : JSON.stringify(x))).join(', ') : typeof v === 'string' ? v : JSON.stringify(v);
+  return s.length > 80 ? `${s.slice(0, 77)}…` : s || '∅';
+}
+
+function describe(fc: FieldChange, t: TFunction): string {
+  if (!('before' in fc)) return t('history.added', { value: formatValue(fc.after) });
+  if (!('after' in fc)) return t('history.removed', { value: formatValue(fc.before) });
+  return `${formatValue(fc.before)} → ${formatValue(fc.after)}`;
+}
+
+export default function HistoryPanel({ changes, disabled, notice, onUndo, onRestore }: Props) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  if (changes.length === 0) return null;
+
+  const latest = changes[changes.length - 1].id;
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <button onClick={() => setOpen(o => !o)} className="flex w-full items-center justify-between text-sm font-semibold">
+        <span>{t('history.title', { count: changes.length })}</span>
+        <span className="text-xs font-normal text-gray-500">{open ? t('history.hide') : t('history.show')}</span>
+      </button>
+      {notice && <div className="mt-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">{notice}</div>}
+      {open && (
+        <ol className="mt-3 space-y-3">
+          {[...changes].reverse().map(change => (
+            <li key={change.id} className="rounded border p-2 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span className={`rounded px-2 py-0.5 ${sourceStyles[change.source]}`}>{t(`history.source.${change.source}`)}</span>
+                  <time dateTime={change.at}>{new Date(change.at).toLocaleString()}</time>
+                  <span>v{change.version}</span>
+                </div>
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => onUndo(change.id)} disabled={disabled} className="text-gray-600 underline disabled:opacity-50">{t('history.undo')}</button>
+                  {change.id !== latest && (
+                    <button
+                      onClick={() => window.confirm(t('history.confirmRestore')) && onRestore(change.id)}
+                      disabled={disabled}
+                      className="text-gray-600 underline disabled:opacity-50"
+                    >
+                      {t('history.restore')}
+                    </button>
+                  )}
+                </div>
+              </div>
+              {change.message && <div className="mt-1 text-xs italic text-gray-600">“{change.message}”</div>}
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {change.diff.map((fc, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-gray-500">{formatPath(fc.path)}</span>: {describe(fc, t)}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
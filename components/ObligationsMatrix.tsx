@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  CatalogueObligation,
+  OBLIGATION_CATALOGUE,
+  OBLIGATION_STATUSES,
+  ObligationMatrixRow,
+  ObligationRecord,
+  ObligationStatus,
+} from '@/lib/obligations';
+
+type Props = {
+  rows: ObligationMatrixRow[];
+  hasRoles: boolean;
+  onUpdate: (record: ObligationRecord) => void;
+};
+
+const statusStyles: Record<ObligationStatus, string> = {
+  open: 'bg-gray-100 text-gray-700',
+  'in-progress': 'bg-blue-50 text-blue-700',
+  done: 'bg-green-50 text-green-700',
+  'not-applicable': 'bg-gray-50 text-gray-400 line-through',
+};
+
+const inputClass = 'w-full rounded border px-2 py-1 text-sm outline-none';
+
+export default function ObligationsMatrix({ rows, hasRoles, onUpdate }: Props) {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<{ useCaseId: string; obligationId: string } | null>(null);
+  const [note, setNote] = useState('');
+  const [url, setUrl] = useState('');
+
+  const items = rows.flatMap(r => r.items);
+  if (rows.length === 0) return null;
+
+  // Union of applicable obligations across use cases, in catalogue order.
+  const used = new Set(items.map(i => i.obligation.id));
+  const obligations: CatalogueObligation[] = OBLIGATION_CATALOGUE.obligations.filter(o => used.has(o.id));
+  const done = items.filter(i => i.record.status === 'done' || i.record.status === 'not-applicable').length;
+
+  const current = selected
+    ? rows.find(r => r.useCaseId === selected.useCaseId)?.items.find(i => i.obligation.id === selected.obligationId)
+    : undefined;
+  const currentRow = selected ? rows.find(r => r.useCaseId === selected.useCaseId) : undefined;
+
+  const update = (record: ObligationRecord, patch: Partial<ObligationRecord>) =>
+    onUpdate({ ...record, ...patch, catalogueVersion: OBLIGATION_CATALOGUE.version, updatedAt: new Date().toISOString() });
+
+  // The store only keeps http(s) links.
+  const urlValid = !url.trim() || /^https?:\/\//i.test(url.trim());
+  const canAdd = (!!note.trim() || !!url.trim()) && urlValid;
+
+  const addEvidence = () => {
+    if (!current || !canAdd) return;
+    update(current.record, {
+      evidence: [
+        ...current.record.evidence,
+        { id: `ev-${Date.now()}`, note: note.trim() || undefined, url: url.trim() || undefined, addedAt: new Date().toISOString() },
+      ],
+    });
+    setNote('');
+    setUrl('');
+  };
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm font-semibold">{t('obligations.title', { done, total: items.length })}</div>
+        <div className="text-xs text-gray-500">{t('obligations.catalogue', { version: OBLIGATION_CATALOGUE.version })}</div>
+      </div>
+      {!hasRoles && (
+        <div className="mb-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">
+          {t('obligations.setRole')}
+        </div>
+      )}
+
+      {obligations.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr>
+                <th className="border-b p-1 text-left font-medium text-gray-500">{t('obligations.obligation')}</th>
+                {rows.map(r => (
+                  <th key={r.useCaseId} className="border-b p-1 text-left font-medium">
+                    {r.useCaseName}
+                    <div className="font-normal text-gray-500">{t('obligations.risk', { level: t(`risk.${r.risk}`) })}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {obligations.map(o => (
+                <tr key={o.id}>
+                  <td className="border-b p-1 align-top">
+                    <span className="font-medium">{o.article}</span> {o.title}
+                  </td>
+                  {rows.map(r => {
+                    const item = r.items.find(i => i.obligation.id === o.id);
+                    if (!item) return <td key={r.useCaseId} className="border-b p-1 text-gray-300">–</td>;
+                    const active = selected?.useCaseId === r.useCaseId && selected.obligationId === o.id;
+                    return (
+                      <td key={r.useCaseId} className="border-b p-1">
+                        <button
+                          onClick={() => setSelected(active ? null : { useCaseId: r.useCaseId, obligationId: o.id })}
+                          className={`rounded px-2 py-0.5 ${statusStyles[item.record.status]} ${active ? 'ring-1 ring-black' : ''}`}
+                        >
+                          {t(`obligationStatus.${item.record.status}`)}
+                          {item.record.evidence.length > 0 && ` · ${item.record.evidence.length}`}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {current && currentRow && (
+        <div className="mt-3 rounded border border-gray-400 p-3 text-sm space-y-2">
+          <div>
+            <div className="font-medium">{current.obligation.article}: {current.obligation.title}</div>
+            <div className="text-xs text-gray-500">{currentRow.useCaseName}</div>
+          </div>
+          <div className="text-gray-700">{current.obligation.description}</div>
+          {current.obligation.condition && (
+            <div className="rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">{current.obligation.condition}</div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs text-gray-500">
+              {t('obligations.status')}
+              <select
+                value={current.record.status}
+                onChange={e => update(current.record, { status: e.target.value as ObligationStatus })}
+                className={`${inputClass} mt-0.5 text-gray-900`}
+              >
+                {OBLIGATION_STATUSES.map(s => <option key={s} value={s}>{t(`obligationStatus.${s}`)}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-500">
+              {t('obligations.responsible')}
+              <input
+                value={current.record.owner || ''}
+                onChange={e => update(current.record, { owner: e.target.value })}
+                placeholder={t('obligations.responsiblePlaceholder')}
+                className={`${inputClass} mt-0.5 text-gray-900`}
+              />
+            </label>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">{t('obligations.evidence')}</div>
+            {current.record.evidence.length === 0 && <div className="text-xs text-gray-400">{t('obligations.noEvidence')}</div>}
+            <ul className="space-y-1">
+              {current.record.evidence.map(ev => (
+                <li key={ev.id} className="flex items-start justify-between gap-2 text-xs">
+                  <span>
+                    {ev.note}
+                    {ev.url && (
+                      <> {' '}<a href={ev.url} target="_blank" rel="noreferrer" className="text-blue-700 underline break-all">{ev.url}</a></>
+                    )}
+                    <span className="ml-1 text-gray-400">({ev.addedAt.slice(0, 10)})</span>
+                  </span>
+                  <button
+                    onClick={() => update(current.record, { evidence: current.record.evidence.filter(x => x.id !== ev.id) })}
+                    className="shrink-0 text-red-600 underline"
+                  >
+                    {t('obligations.remove')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="mt-2 grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+              <input value={note} onChange={e => setNote(e.target.value)} placeholder={t('obligations.notePlaceholder')} className={inputClass} />
+              <input
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+                placeholder="https://link-to-evidence"
+                className={`${inputClass} ${urlValid ? '' : 'border-red-400'}`}
+              />
+              <button onClick={addEvidence} disabled={!canAdd} className="rounded border px-3 py-1 text-xs disabled:opacity-50">
+                {t('obligations.addEvidence')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useTranslation } from 'react-i18next';
+import type { AssessmentSummary } from '@/lib/assessmentStore';
+import { RISK_LEVELS } from '@/lib/responseSchema';
+
+type Props = {
+  workspaces: AssessmentSummary[];
+  currentId: string | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onRestore: (id: string) => void;
+};
+
+// Most severe first, so high-risk and prohibited use cases stand out.
+const LEVELS = [...RISK_LEVELS].reverse();
+
+const RISK_CLASS: Record<(typeof RISK_LEVELS)[number], string> = {
+  prohibited: 'bg-red-100 text-red-800',
+  high: 'bg-amber-100 text-amber-800',
+  limited: 'bg-blue-50 text-blue-800',
+  minimal: 'bg-green-50 text-green-700',
+  unknown: 'bg-gray-100 text-gray-600',
+};
+
+export default function PortfolioOverview({ workspaces, currentId, disabled, onOpen, onRestore }: Props) {
+  const { t } = useTranslation();
+  const active = workspaces.filter(w => !w.archivedAt);
+  const archived = workspaces.filter(w => w.archivedAt);
+
+  const rows = (list: AssessmentSummary[]) =>
+    list.map(w => (
+      <tr key={w.id} className={`border-t align-top ${w.id === currentId ? 'bg-gray-50' : ''}`}>
+        <td className="py-1 pr-2">
+          <div className="font-medium">{w.name}</div>
+          {w.orgName && w.orgName !== w.name && <div className="text-xs text-gray-500">{w.orgName}</div>}
+        </td>
+        <td className="py-1 pr-2 text-center">{w.useCaseCount}</td>
+        <td className="py-1 pr-2">
+          <div className="flex flex-wrap gap-1">
+            {LEVELS.filter(level => w.riskCounts[level] > 0).map(level => (
+              <span key={level} className={`rounded px-1.5 py-0.5 text-xs ${RISK_CLASS[level]}`}>
+                {t(`risk.${level}`)}: {w.riskCounts[level]}
+              </span>
+            ))}
+          </div>
+        </td>
+        <td className="py-1 pr-2 text-center">{w.openTasks}</td>
+        <td className="py-1 pr-2 text-xs text-gray-500">{w.updatedAt.slice(0, 10)}</td>
+        <td className="py-1 text-right text-xs">
+          {w.id === currentId ? (
+            <span className="text-gray-500">{t('portfolio.current')}</span>
+          ) : (
+            <button disabled={disabled} onClick={() => onOpen(w.id)} className="text-blue-700 underline disabled:opacity-50">
+              {t('portfolio.open')}
+            </button>
+          )}
+          {w.archivedAt && (
+            <button disabled={disabled} onClick={() => onRestore(w.id)} className="ml-2 text-gray-600 underline disabled:opacity-50">
+              {t('portfolio.restore')}
+            </button>
+          )}
+        </td>
+      </tr>
+    ));
+
+  const totals = active.reduce(
+    (sum, w) => ({ useCases: sum.useCases + w.useCaseCount, high: sum.high + w.riskCounts.high + w.riskCounts.prohibited, openTasks: sum.openTasks + w.openTasks }),
+    { useCases: 0, high: 0, openTasks: 0 }
+  );
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 text-sm font-semibold">{t('portfolio.title')}</div>
+      <div className="mb-3 text-xs text-gray-500">
+        {t('portfolio.totals', { workspaces: active.length, useCases: totals.useCases, high: totals.high, openTasks: totals.openTasks })}
+      </div>
+      {workspaces.length === 0 ? (
+        <div className="text-sm text-gray-500">{t('portfolio.empty')}</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-1 pr-2 font-normal">{t('portfolio.name')}</th>
+                <th className="pb-1 pr-2 text-center font-normal">{t('portfolio.useCases')}</th>
+                <th className="pb-1 pr-2 font-normal">{t('portfolio.risk')}</th>
+                <th className="pb-1 pr-2 text-center font-normal">{t('portfolio.openTasks')}</th>
+                <th className="pb-1 pr-2 font-normal">{t('portfolio.updated')}</th>
+                <th className="pb-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows(active)}
+              {archived.length > 0 && (
+                <tr>
+                  <td colSpan={6} className="pt-3 pb-1 text-xs font-medium text-gray-500">{t('portfolio.archived')}</td>
+                </tr>
+              )}
+              {rows(archived)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useTranslation } from 'react-i18next';
+import { TASK_STATUSES, TaskStatus, TrackedRoadmapEntry, TrackedTask } from '@/lib/roadmap';
+import { AI_ACT_MILESTONES } from '@/lib/timeline';
+
+type Props = {
+  roadmap: TrackedRoadmapEntry[];
+  useCaseNames: Record<string, string | undefined>;
+  calendarHref?: string;
+  onChange: (roadmap: TrackedRoadmapEntry[]) => void;
+};
+
+const statusStyles: Record<TaskStatus, string> = {
+  todo: 'bg-gray-100 text-gray-700',
+  'in-progress': 'bg-blue-50 text-blue-700',
+  done: 'bg-green-50 text-green-700',
+  blocked: 'bg-red-50 text-red-700',
+};
+
+export default function RoadmapPanel({ roadmap, useCaseNames, calendarHref, onChange }: Props) {
+  const { t } = useTranslation();
+  const today = new Date().toISOString().slice(0, 10);
+  const taskCount = roadmap.reduce((n, e) => n + e.tasks.length, 0);
+  const doneCount = roadmap.reduce((n, e) => n + e.tasks.filter(t => t.status === 'done').length, 0);
+
+  const updateTask = (useCaseId: string, taskId: string, patch: Partial<TrackedTask>) => {
+    onChange(roadmap.map(e => e.useCaseId !== useCaseId ? e : {
+      ...e,
+      tasks: e.tasks.map(t => t.id !== taskId ? t : { ...t, ...patch, updatedAt: new Date().toISOString() }),
+    }));
+  };
+
+  if (taskCount === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm font-semibold">{t('roadmap.title', { done: doneCount, total: taskCount })}</div>
+        {calendarHref && (
+          <a href={calendarHref} className="rounded-full border px-3 py-1 text-xs">{t('roadmap.exportCalendar')}</a>
+        )}
+      </div>
+      <div className="space-y-4">
+        {roadmap.filter(e => e.tasks.length > 0).map(entry => (
+          <div key={entry.useCaseId}>
+            <div className="text-sm font-medium">
+              {useCaseNames[entry.useCaseId] || entry.useCaseName || entry.useCaseId}
+              {entry.risk && <span className="ml-2 text-xs text-gray-500">{t('roadmap.risk', { level: t(`risk.${entry.risk.level}`) })}{entry.risk.rationale ? ` – ${entry.risk.rationale}` : ''}</span>}
+            </div>
+            <div className="mt-2 space-y-2">
+              {entry.tasks.map(task => {
+                const overdue = !!task.dueDate && task.dueDate < today && task.status !== 'done';
+                const milestone = AI_ACT_MILESTONES.find(m => m.id === task.legalDeadline);
+                return (
+                  <div key={task.id} className="rounded border p-2 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className={task.status === 'done' ? 'line-through text-gray-500' : ''}>{task.title}</div>
+                      <select
+                        value={task.status}
+                        onChange={e => updateTask(entry.useCaseId, task.id, { status: e.target.value as TaskStatus })}
+                        className={`rounded px-2 py-0.5 text-xs ${statusStyles[task.status]}`}
+                      >
+                        {TASK_STATUSES.map(s => <option key={s} value={s}>{t(`taskStatus.${s}`)}</option>)}
+                      </select>
+                    </div>
+                    {task.acceptance && <div className="mt-1 text-xs text-gray-500">{t('roadmap.acceptance', { text: task.acceptance })}</div>}
+                    {milestone && (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {t('roadmap.legalDeadline', { date: milestone.date, article: milestone.article })}
+                      </div>
+                    )}
+                    <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-500">
+                        {t('roadmap.owner')}
+                        <input
+                          value={task.owner || ''}
+                          onChange={e => updateTask(entry.useCaseId, task.id, { owner: e.target.value })}
+                          placeholder={t('roadmap.unassigned')}
+                          className="w-full rounded border px-2 py-1 text-sm text-gray-900 outline-none"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-500">
+                        {t('roadmap.due')}
+                        <input
+                          type="date"
+                          value={task.dueDate || ''}
+                          onChange={e => updateTask(entry.useCaseId, task.id, { dueDate: e.target.value || undefined })}
+                          className={`w-full rounded border px-2 py-1 text-sm outline-none ${overdue ? 'border-red-400 text-red-700' : 'text-gray-900'}`}
+                        />
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AgentState } from '@/lib/agentState';
+import { ARTICLE_25_TRIGGERS, determineRoles, ROLE_QUESTIONS, RoleAnswers } from '@/lib/roles';
+
+type Props = {
+  // Without a use case the answers describe the organisation as a whole.
+  useCase?: NonNullable<AgentState['useCases']>[number];
+  initial?: RoleAnswers;
+  // The organisation's roles, kept for any role the answers leave open.
+  orgRoles?: string[];
+  onSubmit: (answers: RoleAnswers) => void;
+  onCancel?: () => void;
+};
+
+export default function RoleQuestionnaire({ useCase, initial, orgRoles, onSubmit, onCancel }: Props) {
+  const { t } = useTranslation();
+  const [answers, setAnswers] = useState<RoleAnswers>(initial || {});
+  const result = determineRoles(answers, useCase, orgRoles);
+
+  return (
+    <div className="space-y-2 text-left text-sm">
+      {ROLE_QUESTIONS.map(q => (
+        <div key={q.id} className="flex flex-wrap items-center justify-between gap-2 rounded border px-3 py-2">
+          <span>
+            {t(`roles.questions.${q.id}`)} <span className="text-xs text-gray-500">{q.article}</span>
+          </span>
+          <span className="flex gap-1">
+            {[true, false].map(v => (
+              <button
+                key={String(v)}
+                onClick={() => setAnswers(a => ({ ...a, [q.id]: v }))}
+                className={`rounded-full border px-3 py-0.5 text-xs ${answers[q.id] === v ? 'bg-black text-white' : ''}`}
+              >
+                {v ? t('roles.yes') : t('roles.no')}
+              </button>
+            ))}
+          </span>
+        </div>
+      ))}
+
+      <div className="rounded bg-gray-50 px-3 py-2">
+        {t('roles.result', { roles: result.roles.map(r => t(`role.${r}`)).join(', ') })}
+      </div>
+      {result.article25.length > 0 && (
+        <div className="rounded bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          {t('roles.article25', {
+            articles: ARTICLE_25_TRIGGERS.filter(tr => result.article25.includes(tr.id)).map(tr => tr.article).join(', '),
+          })}
+        </div>
+      )}
+      {!useCase && (answers.substantialModification || answers.purposeChanged) && (
+        <div className="text-xs text-gray-500">{t('roles.article25PerUseCase')}</div>
+      )}
+      {result.needsAuthorisedRepresentative && (
+        <div className="rounded bg-amber-50 px-3 py-2 text-xs text-amber-800">{t('roles.authorisedRepresentative')}</div>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={() => onSubmit(answers)} className="rounded bg-black px-4 py-2 text-white">{t('roles.apply')}</button>
+        {onCancel && <button onClick={onCancel} className="rounded border px-4 py-2">{t('roles.cancel')}</button>}
+      </div>
+    </div>
+  );
+}
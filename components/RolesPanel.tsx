@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import RoleQuestionnaire from '@/components/RoleQuestionnaire';
+import type { AgentState } from '@/lib/agentState';
+import { ARTICLE_25_TRIGGERS, determineRoles, roleAssignmentFor, RoleAssignment, rolesForUseCase } from '@/lib/roles';
+
+type Props = {
+  state: AgentState;
+  onUpdate: (assignment: RoleAssignment) => void;
+  onReset: (useCaseId: string) => void;
+};
+
+export default function RolesPanel({ state, onUpdate, onReset }: Props) {
+  const { t } = useTranslation();
+  const [editing, setEditing] = useState<string | null>(null);
+
+  const useCases = state.useCases || [];
+  if (useCases.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 text-sm font-semibold">{t('roles.title')}</div>
+      <div className="mb-3 text-xs text-gray-500">{t('roles.hint')}</div>
+      <ul className="space-y-3">
+        {useCases.map(u => {
+          const assignment = roleAssignmentFor(state, u.id);
+          const article25 = assignment ? determineRoles(assignment.answers, u).article25 : [];
+          return (
+            <li key={u.id} className="text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{u.name || u.id}</span>
+                {rolesForUseCase(state, u).map(r => (
+                  <span key={r} className="rounded bg-gray-100 px-2 py-0.5 text-xs">{t(`role.${r}`, { defaultValue: r })}</span>
+                ))}
+                <span className="text-xs text-gray-500">{assignment ? t('roles.fromQuestionnaire') : t('roles.fromOrganisation')}</span>
+                <span className="ml-auto flex gap-2 text-xs">
+                  <button onClick={() => setEditing(editing === u.id ? null : u.id)} className="text-blue-700 underline">
+                    {assignment ? t('roles.edit') : t('roles.answer')}
+                  </button>
+                  {assignment && (
+                    <button onClick={() => onReset(u.id)} className="text-gray-500 underline">{t('roles.reset')}</button>
+                  )}
+                </span>
+              </div>
+              {article25.length > 0 && (
+                <div className="mt-1 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">
+                  {t('roles.article25', {
+                    articles: ARTICLE_25_TRIGGERS.filter(tr => article25.includes(tr.id)).map(tr => tr.article).join(', '),
+                  })}
+                </div>
+              )}
+              {editing === u.id && (
+                <div className="mt-2">
+                  <RoleQuestionnaire
+                    useCase={u}
+                    initial={assignment?.answers}
+                    orgRoles={state.roles}
+                    onSubmit={answers => {
+                      onUpdate({ useCaseId: u.id, answers, updatedAt: new Date().toISOString() });
+                      setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
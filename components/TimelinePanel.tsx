@@ -0,0 +1,49 @@
+import { useTranslation } from 'react-i18next';
+import type { TimelineEntry } from '@/lib/timeline';
+
+type Props = {
+  entries: TimelineEntry[];
+};
+
+// Milestones this close are highlighted so the team plans for them.
+const SOON_DAYS = 180;
+
+export default function TimelinePanel({ entries }: Props) {
+  const { t, i18n } = useTranslation();
+  if (!entries.some(e => e.useCases.length > 0)) return null;
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(i18n.language, { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 text-sm font-semibold">{t('timeline.title')}</div>
+      <div className="mb-3 text-xs text-gray-500">{t('timeline.hint')}</div>
+      <ol className="space-y-3 border-l pl-4">
+        {entries.map(({ milestone, daysLeft, useCases }) => {
+          const inForce = daysLeft <= 0;
+          const badge = inForce
+            ? 'bg-red-50 text-red-700'
+            : daysLeft <= SOON_DAYS
+              ? 'bg-amber-50 text-amber-800'
+              : 'bg-gray-100 text-gray-700';
+          return (
+            <li key={milestone.id} className="relative text-sm">
+              <span className={`absolute -left-[21px] top-1.5 h-2 w-2 rounded-full ${inForce ? 'bg-red-500' : 'bg-gray-400'}`} />
+              <div className="flex flex-wrap items-center gap-2">
+                <time dateTime={milestone.date} className="font-medium">{formatDate(milestone.date)}</time>
+                <span className={`rounded px-2 py-0.5 text-xs ${badge}`}>
+                  {inForce ? t('timeline.inForce') : t('timeline.daysLeft', { count: daysLeft })}
+                </span>
+              </div>
+              <div>{t(`timeline.milestones.${milestone.id}`)}</div>
+              <div className="text-xs text-gray-500">
+                {milestone.article} · {milestone.scope === 'organisation' ? t('timeline.organisation') : useCases.map(u => u.name).join(', ')}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
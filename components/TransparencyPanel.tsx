@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AgentState } from '@/lib/agentState';
+import { isLocale, LOCALES, Locale } from '@/lib/i18n/locales';
+import {
+  generateTransparencyNotice,
+  orgLocale,
+  TRANSPARENCY_ARTEFACTS,
+  transparencyArtefacts,
+  TransparencyArtefactId,
+  TransparencyNotice,
+} from '@/lib/transparency';
+
+type Props = {
+  state: AgentState;
+  onUpdate: (notice: TransparencyNotice) => void;
+};
+
+const inputClass = 'w-full rounded border px-2 py-1 text-sm outline-none';
+
+export default function TransparencyPanel({ state, onUpdate }: Props) {
+  const { t } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<TransparencyArtefactId | null>(null);
+  // Language picked before the first generation; afterwards the notice's own language is shown.
+  const [pickedLocale, setPickedLocale] = useState<Locale | null>(null);
+
+  const useCases = (state.useCases || []).filter(u => transparencyArtefacts(u).length > 0);
+  if (useCases.length === 0) return null;
+
+  const useCase = useCases.find(u => u.id === selectedId) || useCases[0];
+  const notice = (state.transparency || []).find(n => n.useCaseId === useCase.id);
+  const missing = notice ? transparencyArtefacts(useCase).filter(id => notice.artefacts[id] === undefined) : [];
+  const locale = notice?.locale || pickedLocale || orgLocale(state.org);
+
+  const generate = (target: Locale) => {
+    if (notice && !window.confirm(t('transparency.regenerateConfirm'))) return;
+    onUpdate(generateTransparencyNotice(state, useCase, target));
+  };
+
+  const setText = (id: TransparencyArtefactId, text: string) => {
+    if (!notice) return;
+    onUpdate({ ...notice, artefacts: { ...notice.artefacts, [id]: text }, updatedAt: new Date().toISOString() });
+  };
+
+  const copy = async (id: TransparencyArtefactId) => {
+    try {
+      await navigator.clipboard.writeText(notice?.artefacts[id] || '');
+      setCopied(id);
+      setTimeout(() => setCopied(c => (c === id ? null : c)), 1500);
+    } catch {
+      // Clipboard access can be denied; the text stays selectable in the field.
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 text-sm font-semibold">{t('transparency.title')}</div>
+      <div className="mb-3 text-xs text-gray-500">{t('transparency.hint')}</div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        {useCases.length > 1 && (
+          <select value={useCase.id} onChange={e => setSelectedId(e.target.value)} className={`${inputClass} w-auto flex-1`}>
+            {useCases.map(u => <option key={u.id} value={u.id}>{u.name || u.id}</option>)}
+          </select>
+        )}
+        <label className="flex items-center gap-1 text-xs text-gray-500">
+          {t('transparency.language')}
+          <select
+            value={locale}
+            onChange={e => {
+              if (!isLocale(e.target.value)) return;
+              if (notice) generate(e.target.value);
+              else setPickedLocale(e.target.value);
+            }}
+            className="rounded border bg-white px-1 py-0.5 text-gray-900"
+          >
+            {Object.entries(LOCALES).map(([code, l]) => <option key={code} value={code}>{l.label}</option>)}
+          </select>
+        </label>
+        <button onClick={() => generate(locale)} className="rounded border px-3 py-1 text-xs">
+          {notice ? t('transparency.regenerate') : t('transparency.generate')}
+        </button>
+      </div>
+
+      {notice && missing.length > 0 && (
+        <div className="mb-3 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">{t('transparency.outdated')}</div>
+      )}
+
+      {notice && (
+        <div className="space-y-3">
+          {TRANSPARENCY_ARTEFACTS.filter(a => notice.artefacts[a.id] !== undefined).map(a => (
+            <div key={a.id}>
+              <div className="mb-1 flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium">
+                  {t(`transparency.artefacts.${a.id}`)} <span className="font-normal text-gray-500">{a.article}</span>
+                </span>
+                <button onClick={() => copy(a.id)} className="text-blue-700 underline">
+                  {copied === a.id ? t('transparency.copied') : t('transparency.copy')}
+                </button>
+              </div>
+              <textarea
+                value={notice.artefacts[a.id] || ''}
+                onChange={e => setText(a.id, e.target.value)}
+                rows={a.id === 'sop' ? 9 : 5}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RISK_LEVELS } from '@/lib/responseSchema';
+import { classifyUseCase } from '@/lib/riskClassifier';
+import {
+  formatUseCasesCsv,
+  formatUseCasesJson,
+  parseUseCasesCsv,
+  parseUseCasesJson,
+  splitList,
+  UseCase,
+} from '@/lib/useCaseIO';
+import type { VendorEntry } from '@/lib/vendors';
+
+type Props = {
+  useCases: UseCase[];
+  vendors: VendorEntry[];
+  onUpdate: (useCase: UseCase) => void;
+  onDelete: (id: string) => void;
+  onImport: (useCases: UseCase[]) => void;
+};
+
+type Draft = {
+  name: string;
+  description: string;
+  process: string;
+  inScope: '' | 'yes' | 'no';
+  risk: string;
+  model: string;
+  vendorId: string;
+  data: string;
+  subjects: string;
+  owner: string;
+  jurisdictions: string;
+};
+
+const toDraft = (u: UseCase): Draft => ({
+  name: u.name || '',
+  description: u.description || '',
+  process: u.process || '',
+  inScope: u.inScope === undefined ? '' : u.inScope ? 'yes' : 'no',
+  risk: u.risk || '',
+  model: u.model || '',
+  vendorId: u.vendorId || '',
+  data: (u.data || []).join(', '),
+  subjects: (u.subjects || []).join(', '),
+  owner: u.owner || '',
+  jurisdictions: (u.jurisdictions || []).join(', '),
+});
+
+// A linked registry entry supplies the model name.
+const fromDraft = (id: string, d: Draft, vendors: VendorEntry[]): UseCase => ({
+  id,
+  name: d.name.trim() || undefined,
+  description: d.description.trim() || undefined,
+  process: d.process.trim() || undefined,
+  inScope: d.inScope === '' ? undefined : d.inScope === 'yes',
+  risk: (RISK_LEVELS as readonly string[]).includes(d.risk) ? (d.risk as UseCase['risk']) : undefined,
+  model: vendors.find(v => v.id === d.vendorId)?.name || d.model.trim() || undefined,
+  vendorId: vendors.some(v => v.id === d.vendorId) ? d.vendorId : undefined,
+  data: splitList(d.data),
+  subjects: splitList(d.subjects),
+  owner: d.owner.trim() || undefined,
+  jurisdictions: splitList(d.jurisdictions),
+});
+
+function download(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const inputClass = 'w-full rounded border px-2 py-1 text-sm outline-none';
+
+export default function UseCaseInventory({ useCases, vendors, onUpdate, onDelete, onImport }: Props) {
+  const { t } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const startEdit = (u: UseCase) => {
+    setEditingId(u.id);
+    setDraft(toDraft(u));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveEdit = () => {
+    if (!editingId || !draft) return;
+    onUpdate(fromDraft(editingId, draft, vendors));
+    cancelEdit();
+  };
+
+  const addUseCase = () => {
+    const u: UseCase = { id: `uc-${Date.now()}`, name: t('inventory.newName'), risk: 'unknown' };
+    onUpdate(u);
+    startEdit(u);
+  };
+
+  const removeUseCase = (u: UseCase) => {
+    if (!window.confirm(t('inventory.confirmDelete', { name: u.name || t('inventory.untitled') }))) return;
+    if (editingId === u.id) cancelEdit();
+    onDelete(u.id);
+  };
+
+  const handleFile = async (file: File) => {
+    setImportError(null);
+    try {
+      const text = await file.text();
+      const rows = /\.json$/i.test(file.name) ? parseUseCasesJson(text) : parseUseCasesCsv(text);
+      if (rows.length === 0) throw new Error(t('inventory.noRows'));
+      onImport(rows);
+    } catch (error: any) {
+      setImportError(error?.message || t('inventory.importFailed'));
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const field = (key: keyof Draft, label: string, placeholder?: string) => (
+    <label className="block text-xs text-gray-500">
+      {label}
+      <input
+        value={draft?.[key] || ''}
+        onChange={e => setDraft(d => (d ? { ...d, [key]: e.target.value } : d))}
+        placeholder={placeholder}
+        className={`${inputClass} mt-0.5 text-gray-900`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold">{t('inventory.title', { count: useCases.length })}</div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button onClick={addUseCase} className="rounded-full border px-3 py-1">{t('inventory.add')}</button>
+          <button onClick={() => fileRef.current?.click()} className="rounded-full border px-3 py-1">{t('inventory.import')}</button>
+          <button
+            onClick={() => download('ai-use-cases.csv', 'text/csv', formatUseCasesCsv(useCases))}
+            disabled={useCases.length === 0}
+            className="rounded-full border px-3 py-1 disabled:opacity-50"
+          >
+            {t('inventory.exportCsv')}
+          </button>
+          <button
+            onClick={() => download('ai-use-cases.json', 'application/json', formatUseCasesJson(useCases))}
+            disabled={useCases.length === 0}
+            className="rounded-full border px-3 py-1 disabled:opacity-50"
+          >
+            {t('inventory.exportJson')}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+        </div>
+      </div>
+      {importError && <div className="mb-2 rounded bg-red-50 px-2 py-1 text-xs text-red-700">{importError}</div>}
+
+      <div className="space-y-3">
+        {useCases.map((u) => {
+          if (editingId === u.id && draft) {
+            return (
+              <div key={u.id} className="rounded border border-gray-400 p-3 space-y-2">
+                {field('name', t('inventory.name'))}
+                <label className="block text-xs text-gray-500">
+                  {t('inventory.description')}
+                  <textarea
+                    value={draft.description}
+                    onChange={e => setDraft(d => (d ? { ...d, description: e.target.value } : d))}
+                    rows={2}
+                    className={`${inputClass} mt-0.5 text-gray-900`}
+                  />
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {field('process', t('inventory.process'))}
+                  {field('owner', t('inventory.owner'))}
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block text-xs text-gray-500">
+                      {t('inventory.vendor')}
+                      <select
+                        value={draft.vendorId}
+                        onChange={e => setDraft(d => (d ? { ...d, vendorId: e.target.value } : d))}
+                        className={`${inputClass} mt-0.5 text-gray-900`}
+                      >
+                        <option value="">{t('inventory.notRegistered')}</option>
+                        {vendors.map(v => <option key={v.id} value={v.id}>{v.name}{v.provider ? ` (${v.provider})` : ''}</option>)}
+                      </select>
+                    </label>
+                    {!draft.vendorId && field('model', t('inventory.model'))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block text-xs text-gray-500">
+                      {t('inventory.risk')}
+                      <select
+                        value={draft.risk}
+                        onChange={e => setDraft(d => (d ? { ...d, risk: e.target.value } : d))}
+                        className={`${inputClass} mt-0.5 text-gray-900`}
+                      >
+                        <option value="">-</option>
+                        {RISK_LEVELS.map(r => <option key={r} value={r}>{t(`risk.${r}`)}</option>)}
+                      </select>
+                    </label>
+                    <label className="block text-xs text-gray-500">
+                      {t('inventory.inScope')}
+                      <select
+                        value={draft.inScope}
+                        onChange={e => setDraft(d => (d ? { ...d, inScope: e.target.value as Draft['inScope'] } : d))}
+                        className={`${inputClass} mt-0.5 text-gray-900`}
+                      >
+                        <option value="">-</option>
+                        <option value="yes">{t('inventory.yes')}</option>
+                        <option value="no">{t('inventory.no')}</option>
+                      </select>
+                    </label>
+                  </div>
+                  {field('data', t('inventory.data'), t('inventory.commaSeparated'))}
+                  {field('subjects', t('inventory.subjects'), t('inventory.commaSeparated'))}
+                  {field('jurisdictions', t('inventory.jurisdictions'), t('inventory.commaSeparated'))}
+                </div>
+                <div className="flex gap-2 pt-1">
+                  <button onClick={saveEdit} className="rounded bg-black px-3 py-1 text-sm text-white">{t('inventory.save')}</button>
+                  <button onClick={cancelEdit} className="rounded border px-3 py-1 text-sm">{t('inventory.cancel')}</button>
+                </div>
+              </div>
+            );
+          }
+
+          const cls = classifyUseCase(u);
+          return (
+          <div key={u.id} className={`rounded border p-3 ${cls.conflict ? 'border-amber-400' : ''}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="font-medium">{u.name || t('inventory.untitled')}</div>
+              <div className="flex shrink-0 gap-2 text-xs">
+                <button onClick={() => startEdit(u)} className="text-gray-600 underline">{t('inventory.edit')}</button>
+                <button onClick={() => removeUseCase(u)} className="text-red-600 underline">{t('inventory.delete')}</button>
+              </div>
+            </div>
+            {u.description && <div className="text-sm text-gray-600 mt-1">{u.description}</div>}
+            <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+              <div><span className="text-gray-500">{t('inventory.process')}:</span> {u.process || '-'}</div>
+              <div><span className="text-gray-500">{t('inventory.risk')}:</span> {u.risk ? t(`risk.${u.risk}`) : '-'}</div>
+              <div><span className="text-gray-500">{t('inventory.owner')}:</span> {u.owner || '-'}</div>
+              <div>
+                <span className="text-gray-500">{t('inventory.model')}:</span> {u.model || '-'}
+                {!u.vendorId && u.model && <span className="text-xs text-gray-500"> ({t('inventory.notRegistered')})</span>}
+              </div>
+              <div><span className="text-gray-500">{t('inventory.inScope')}:</span> {u.inScope === undefined ? '-' : u.inScope ? t('inventory.yes') : t('inventory.no')}</div>
+              <div><span className="text-gray-500">{t('inventory.data')}:</span> {(u.data||[]).join(', ') || '-'}</div>
+              <div><span className="text-gray-500">{t('inventory.subjects')}:</span> {(u.subjects||[]).join(', ') || '-'}</div>
+              <div className="md:col-span-2"><span className="text-gray-500">{t('inventory.jurisdictions')}:</span> {(u.jurisdictions||[]).join(', ') || '-'}</div>
+              <div className="md:col-span-3">
+                <span className="text-gray-500">{t('inventory.ruleBased')}:</span> {t(`risk.${cls.level}`)}
+                {cls.article && <span className="text-gray-500"> ({cls.article}: {cls.rule})</span>}
+              </div>
+            </div>
+            {cls.conflict && (
+              <div className="mt-2 rounded bg-amber-50 px-2 py-1 text-xs text-amber-800">
+                {t('inventory.conflict', { label: t(`risk.${u.risk}`), level: t(`risk.${cls.level}`) })}
+                {cls.matched.length > 0 && <> {t('inventory.matched', { terms: cls.matched.join(', ') })}</>} {t('inventory.review')}
+              </div>
+            )}
+          </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
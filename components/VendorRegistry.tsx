@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AgentState } from '@/lib/agentState';
+import { isGpaiModel } from '@/lib/timeline';
+import {
+  markReviewed,
+  missingDocuments,
+  newVendorEntry,
+  requiredDocuments,
+  reviewDue,
+  VENDOR_DOCUMENT_STATUSES,
+  VendorDocumentStatus,
+  VendorEntry,
+} from '@/lib/vendors';
+
+type Props = {
+  vendors: VendorEntry[];
+  useCases: NonNullable<AgentState['useCases']>;
+  onUpdate: (entry: VendorEntry) => void;
+  onDelete: (id: string) => void;
+  onLinkModels: () => void;
+};
+
+const inputClass = 'w-full rounded border px-2 py-1 text-sm outline-none';
+
+export default function VendorRegistry({ vendors, useCases, onUpdate, onDelete, onLinkModels }: Props) {
+  const { t } = useTranslation();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const unlinked = useCases.filter(u => !u.vendorId && u.model?.trim()).length;
+  if (vendors.length === 0 && useCases.length === 0) return null;
+
+  const update = (entry: VendorEntry, patch: Partial<VendorEntry>) =>
+    onUpdate({ ...entry, ...patch, updatedAt: new Date().toISOString() });
+
+  const add = () => {
+    const name = window.prompt(t('vendors.namePrompt'))?.trim();
+    if (!name) return;
+    const entry = newVendorEntry(name, isGpaiModel(name));
+    onUpdate(entry);
+    setOpenId(entry.id);
+  };
+
+  const remove = (entry: VendorEntry) => {
+    if (!window.confirm(t('vendors.confirmDelete', { name: entry.name }))) return;
+    onDelete(entry.id);
+  };
+
+  const text = (entry: VendorEntry, key: 'name' | 'provider' | 'contractClauses' | 'complianceClaims', label: string, rows = 0) => (
+    <label className="block text-xs text-gray-500">
+      {label}
+      {rows > 0 ? (
+        <textarea
+          value={entry[key] || ''}
+          onChange={e => update(entry, { [key]: e.target.value })}
+          rows={rows}
+          className={`${inputClass} mt-0.5 text-gray-900`}
+        />
+      ) : (
+        <input
+          value={entry[key] || ''}
+          // An entry needs a name, so the last character cannot be deleted.
+          onChange={e => (key !== 'name' || e.target.value.trim()) && update(entry, { [key]: e.target.value })}
+          className={`${inputClass} mt-0.5 text-gray-900`}
+        />
+      )}
+    </label>
+  );
+
+  return (
+    <div className="mb-4 rounded-md border bg-white p-4">
+      <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-semibold">{t('vendors.title')}</div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button onClick={add} className="rounded-full border px-3 py-1">{t('vendors.add')}</button>
+          {unlinked > 0 && (
+            <button onClick={onLinkModels} className="rounded-full border px-3 py-1">{t('vendors.linkModels', { count: unlinked })}</button>
+          )}
+        </div>
+      </div>
+      <div className="mb-3 text-xs text-gray-500">{t('vendors.hint')}</div>
+      {vendors.length === 0 && <div className="text-sm text-gray-500">{t('vendors.empty')}</div>}
+
+      <div className="space-y-3">
+        {vendors.map(entry => {
+          const linked = useCases.filter(u => u.vendorId === entry.id);
+          const missing = missingDocuments(entry);
+          const due = reviewDue(entry);
+          return (
+            <div key={entry.id} className="rounded border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{entry.name}</span>
+                {entry.provider && <span className="text-gray-500">{entry.provider}</span>}
+                {entry.gpai && (
+                  <span className="rounded bg-gray-100 px-2 py-0.5 text-xs">
+                    {entry.systemicRisk ? t('vendors.systemicRisk') : t('vendors.gpai')}
+                  </span>
+                )}
+                <span className={`rounded px-2 py-0.5 text-xs ${missing.length ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-700'}`}>
+                  {t('vendors.documentsReceived', { received: requiredDocuments(entry).length - missing.length, total: requiredDocuments(entry).length })}
+                </span>
+                {due && <span className="rounded bg-amber-50 px-2 py-0.5 text-xs text-amber-800">{t('vendors.reviewDue')}</span>}
+                <span className="ml-auto flex gap-2 text-xs">
+                  <button onClick={() => setOpenId(openId === entry.id ? null : entry.id)} className="text-gray-600 underline">
+                    {openId === entry.id ? t('vendors.close') : t('vendors.edit')}
+                  </button>
+                  <button onClick={() => remove(entry)} className="text-red-600 underline">{t('vendors.delete')}</button>
+                </span>
+              </div>
+              <div className="mt-1 text-xs text-gray-500">
+                {t('vendors.usedBy', { names: linked.map(u => u.name || u.id).join(', ') || '-' })}
+              </div>
+
+              {openId === entry.id && (
+                <div className="mt-3 space-y-2">
+                  <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+                    {text(entry, 'name', t('vendors.name'))}
+                    {text(entry, 'provider', t('vendors.provider'))}
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-xs">
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={entry.gpai}
+                        onChange={e => update(entry, { gpai: e.target.checked, systemicRisk: e.target.checked && entry.systemicRisk })}
+                      />
+                      {t('vendors.gpaiLabel')}
+                    </label>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={entry.systemicRisk}
+                        disabled={!entry.gpai}
+                        onChange={e => update(entry, { systemicRisk: e.target.checked })}
+                      />
+                      {t('vendors.systemicRiskLabel')}
+                    </label>
+                  </div>
+                  <div>
+                    <div className="mb-1 text-xs text-gray-500">{t('vendors.documents')}</div>
+                    <ul className="space-y-1">
+                      {requiredDocuments(entry).map(d => (
+                        <li key={d.id} className="flex flex-wrap items-center justify-between gap-2">
+                          <span>
+                            {t(`vendors.documentTypes.${d.id}`)} <span className="text-xs text-gray-500">{d.article}</span>
+                          </span>
+                          <select
+                            value={entry.documents[d.id] || 'missing'}
+                            onChange={e =>
+                              update(entry, { documents: { ...entry.documents, [d.id]: e.target.value as VendorDocumentStatus } })
+                            }
+                            className="rounded border bg-white px-1 py-0.5 text-xs"
+                          >
+                            {VENDOR_DOCUMENT_STATUSES.map(s => <option key={s} value={s}>{t(`vendors.documentStatus.${s}`)}</option>)}
+                          </select>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  {text(entry, 'contractClauses', t('vendors.contractClauses'), 3)}
+                  {text(entry, 'complianceClaims', t('vendors.complianceClaims'), 3)}
+                  <div className="flex flex-wrap items-end gap-3 text-xs text-gray-500">
+                    <span>{t('vendors.lastReviewed', { date: entry.lastReviewedAt || '-' })}</span>
+                    <label className="flex items-center gap-1">
+                      {t('vendors.nextReview')}
+                      <input
+                        type="date"
+                        value={entry.nextReviewAt || ''}
+                        onChange={e => update(entry, { nextReviewAt: e.target.value || undefined })}
+                        className="rounded border px-1 py-0.5 text-gray-900"
+                      />
+                    </label>
+                    <button onClick={() => onUpdate(markReviewed(entry))} className="rounded border px-3 py-1 text-gray-900">
+                      {t('vendors.markReviewed')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useTranslation } from 'react-i18next';
+import type { AssessmentSummary } from '@/lib/assessmentStore';
+
+type Props = {
+  workspaces: AssessmentSummary[];
+  currentId: string | null;
+  disabled?: boolean;
+  portfolioOpen: boolean;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onArchive: () => void;
+  onDelete: () => void;
+  onTogglePortfolio: () => void;
+};
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  currentId,
+  disabled,
+  portfolioOpen,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+  onTogglePortfolio,
+}: Props) {
+  const { t } = useTranslation();
+  const current = workspaces.find(w => w.id === currentId);
+  // An archived workspace stays selectable while it is open.
+  const options = workspaces.filter(w => !w.archivedAt || w.id === currentId);
+
+  const ask = (message: string, initial: string, then: (name: string) => void) => {
+    const name = window.prompt(message, initial)?.trim();
+    if (name) then(name);
+  };
+
+  const button = 'rounded-full border px-2 py-0.5 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <label className="flex items-center gap-1 text-gray-500">
+        {t('workspaces.label')}
+        <select
+          value={currentId || ''}
+          disabled={disabled}
+          onChange={e => e.target.value && onOpen(e.target.value)}
+          className="max-w-[16rem] rounded border bg-white px-1 py-0.5 text-gray-900"
+        >
+          {!current && <option value="">…</option>}
+          {options.map(w => (
+            <option key={w.id} value={w.id}>
+              {w.name}{w.archivedAt ? ` (${t('workspaces.archived')})` : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button disabled={disabled} onClick={() => ask(t('workspaces.namePrompt'), '', onCreate)} className={button}>
+        {t('workspaces.new')}
+      </button>
+      {current && (
+        <>
+          <button disabled={disabled} onClick={() => ask(t('workspaces.renamePrompt'), current.name, onRename)} className={button}>
+            {t('workspaces.rename')}
+          </button>
+          <button
+            disabled={disabled}
+            onClick={() => ask(t('workspaces.namePrompt'), t('workspaces.copyName', { name: current.name }), onDuplicate)}
+            className={button}
+          >
+            {t('workspaces.duplicate')}
+          </button>
+          {!current.archivedAt && (
+            <button
+              disabled={disabled}
+              onClick={() => window.confirm(t('workspaces.archiveConfirm', { name: current.name })) && onArchive()}
+              className={button}
+            >
+              {t('workspaces.archive')}
+            </button>
+          )}
+          <button
+            disabled={disabled}
+            onClick={() => window.confirm(t('workspaces.deleteConfirm', { name: current.name })) && onDelete()}
+            className={`${button} text-red-600`}
+          >
+            {t('workspaces.delete')}
+          </button>
+        </>
+      )}
+      <button onClick={onTogglePortfolio} className={`${button} ${portfolioOpen ? 'bg-black text-white' : ''}`}>
+        {t('workspaces.portfolio')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import Module from 'module';
+import path from 'path';
+
+/**
+ * Maps the `@/` import alias onto the compiled tree. tsc keeps the alias in its output and
+ * Node does not know it, so this has to be imported before anything that uses it.
+ */
+const root = path.resolve(__dirname, '..');
+const resolve = (Module as any)._resolveFilename;
+
+(Module as any)._resolveFilename = function (request: string, ...rest: unknown[]) {
+  const mapped = request.startsWith('@/') ? path.join(root, request.slice(2)) : request;
+  return resolve.call(this, mapped, ...rest);
+};
@@ -0,0 +1,445 @@
+import './alias';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AgentState, mergeAgentState } from '@/lib/agentState';
+import type { TranscriptMessage } from '@/lib/assessmentStore';
+import type { ConversationSummary } from '@/lib/conversation';
+import { detectDocumentType, DocumentError, extractDocumentText } from '@/lib/documents';
+import { readEventStream } from '@/lib/sse';
+import { CONTRACT_LIMITS } from '@/lib/responseSchema';
+import type { RiskLevel } from '@/lib/riskClassifier';
+import { formatUseCasesCsv, parseUseCasesCsv } from '@/lib/useCaseIO';
+import { handleChat, SYSTEM_PROMPT } from '@/pages/api/chat';
+
+/**
+ * Prompt-regression harness. Each scenario in evals/scenarios is a conversation with the
+ * expected outcome of every turn. Turns go through the real chat handler; the model is the
+ * mock provider, replaying the scenario's recorded replies, unless `--live` is given.
+ *
+ *   npm run eval                     run every scenario and compare with evals/baseline.json
+ *   npm run eval -- recruitment      run scenarios whose id contains "recruitment"
+ *   npm run eval -- --update-baseline
+ *   npm run eval -- --live           use the configured LLM_PROVIDER instead of recordings
+ */
+
+type Expectation = {
+  // HTTP status of the chat response; 200 when omitted.
+  status?: number;
+  // Whether the JSON block must pass validation without repairs or dropped fields; true when omitted.
+  validJson?: boolean;
+  roles?: string[];
+  // The model's risk label per use case id.
+  risk?: Record<string, RiskLevel>;
+  // The rule-based classifier's level per use case id.
+  classifier?: Record<string, RiskLevel>;
+  noRiskConflicts?: boolean;
+  // Expected `stateUpdates.org` fields; null means the field must be absent.
+  org?: Record<string, string | null>;
+  replyIncludes?: string[];
+  replyExcludes?: string[];
+  minSources?: number;
+  // Validation issue paths that must be reported, matched by prefix.
+  issues?: string[];
+  // Fields of the state once the turn's updates are merged; null means the field must be absent.
+  state?: { org?: Record<string, unknown>; useCases?: Record<string, Record<string, unknown>> };
+  // Fields of the response's `usage`; null means the field must be absent.
+  usage?: Record<string, unknown>;
+  // Substrings of a `document` turn's extracted text, or of its error message when rejected,
+  // or of an `exportCsv` turn's file.
+  textIncludes?: string[];
+  textExcludes?: string[];
+};
+
+type ScenarioTurn = {
+  input?: string;
+  // The `model` field of the chat request, e.g. `openai:gpt-4o`.
+  model?: string;
+  locale?: string;
+  stream?: boolean;
+  // Imports this CSV into the inventory instead of sending `input`; only `state` is checked.
+  importCsv?: string;
+  // Exports the inventory as CSV; the text expectations apply to the file and `state` to the
+  // inventory after importing the file again.
+  exportCsv?: boolean;
+  // Extracts this file, relative to the scenario file, as an upload does; `status` is the
+  // upload's status and the text expectations apply to the extracted text.
+  document?: string;
+  headers?: Record<string, string>;
+  expect?: Expectation;
+};
+
+type Scenario = {
+  id: string;
+  description: string;
+  // Mock fixture file with the recorded model replies, relative to the scenario file.
+  // The bundled mock fixtures are used when omitted.
+  fixtures?: string;
+  state?: AgentState;
+  // Environment variables set while the scenario runs, such as API keys or budgets.
+  env?: Record<string, string>;
+  // This month's spend per client, seeded into the usage log; turns without a key are `ip:unknown`.
+  spent?: Record<string, number>;
+  turns: ScenarioTurn[];
+};
+
+type Check = { turn: number; name: string; pass: boolean; detail?: string };
+
+type ScenarioResult = { id: string; score: number; passed: boolean; checks: Check[] };
+
+type Report = { promptVersion: string; provider: string; ranAt: string; scenarios: ScenarioResult[] };
+
+type Baseline = { promptVersion: string; scores: Record<string, number> };
+
+const EVALS_DIR = path.resolve('evals');
+const SCENARIOS_DIR = path.join(EVALS_DIR, 'scenarios');
+const BASELINE_PATH = path.join(EVALS_DIR, 'baseline.json');
+const REPORT_PATH = path.resolve('.eval-build', 'report.json');
+const USAGE_PATH = path.resolve('.eval-build', 'usage.jsonl');
+
+const promptVersion = createHash('sha256').update(SYSTEM_PROMPT).digest('hex').slice(0, 12);
+
+function loadScenarios(filter: string[]): Scenario[] {
+  return fs
+    .readdirSync(SCENARIOS_DIR)
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => {
+      const file = path.join(SCENARIOS_DIR, f);
+      const scenario = JSON.parse(fs.readFileSync(file, 'utf8')) as Scenario;
+      if (!scenario.id || !Array.isArray(scenario.turns) || scenario.turns.length === 0) {
+        throw new Error(`${f}: a scenario needs an "id" and at least one turn`);
+      }
+      const dir = path.dirname(file);
+      const turns = scenario.turns.map(t => (t.document ? { ...t, document: path.resolve(dir, t.document) } : t));
+      return { ...scenario, turns, ...(scenario.fixtures ? { fixtures: path.resolve(dir, scenario.fixtures) } : {}) };
+    })
+    .filter(s => filter.length === 0 || filter.some(f => s.id.includes(f)));
+}
+
+/** Calls the chat handler in-process with a minimal request/response pair. */
+function callChat(body: Record<string, unknown>, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    let status = 200;
+    let events = '';
+    const res: any = {
+      setHeader: () => res,
+      on: () => res,
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(data: unknown) {
+        resolve({ status, body: data });
+        return res;
+      },
+      writeHead(code: number) {
+        status = code;
+        return res;
+      },
+      write(chunk: string) {
+        events += chunk;
+        return true;
+      },
+      end() {
+        let final: unknown;
+        readEventStream(new Response(events), e => {
+          if (e.event === 'final' || e.event === 'error') final = e.data;
+        }).then(() => resolve({ status, body: final }), reject);
+      },
+    };
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+    handleChat({ method: 'POST', body, headers: lowerCased } as NextApiRequest, res as NextApiResponse).catch(reject);
+  });
+}
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(x => b.includes(x));
+
+function checkTurn(turn: number, status: number, body: any, expect: Expectation, merged: AgentState): Check[] {
+  const checks: Check[] = [];
+  const add = (name: string, pass: boolean, detail?: string) => checks.push({ turn, name, pass, ...(pass ? {} : { detail }) });
+
+  const expectedStatus = expect.status ?? 200;
+  add('status', status === expectedStatus, `expected ${expectedStatus}, got ${status}${body?.error ? ` (${body.error})` : ''}`);
+  if (status !== 200 || !body) return checks;
+
+  const report = body.validation || {};
+  const cleanJson = report.valid === true && !report.repaired;
+  const issues: Array<{ path: string; message: string }> = report.issues || [];
+  add(
+    'json',
+    cleanJson === (expect.validJson ?? true),
+    cleanJson ? 'expected validation issues, got none' : issues.map(i => `${i.path}: ${i.message}`).join('; ') || 'reply was repaired'
+  );
+
+  const over = (['guidance', 'suggestions', 'questions', 'examples'] as const).filter(
+    k => (body[k] || []).length > CONTRACT_LIMITS[k]
+  );
+  const lateTasks = (body.roadmap || []).flatMap((r: any) => r.tasks || []).filter((t: any) => t.dueInDays > CONTRACT_LIMITS.maxDueInDays);
+  add('limits', over.length === 0 && lateTasks.length === 0, [...over.map(k => `${k} over limit`), ...lateTasks.map((t: any) => `"${t.title}" due in ${t.dueInDays} days`)].join('; '));
+
+  const updates = body.stateUpdates || {};
+  if (expect.roles) {
+    const roles: string[] = updates.roles || [];
+    add('roles', sameSet(roles, expect.roles), `expected [${expect.roles}], got [${roles}]`);
+  }
+  for (const [id, level] of Object.entries(expect.risk || {})) {
+    const got = (updates.useCases || []).find((u: any) => u.id === id)?.risk;
+    add(`risk ${id}`, got === level, `expected ${level}, got ${got ?? 'nothing'}`);
+  }
+  for (const [id, level] of Object.entries(expect.classifier || {})) {
+    const got = (body.classifications || []).find((c: any) => c.useCaseId === id)?.level;
+    add(`classifier ${id}`, got === level, `expected ${level}, got ${got ?? 'nothing'}`);
+  }
+  if (expect.noRiskConflicts) {
+    const conflicts: any[] = body.riskConflicts || [];
+    add('risk conflicts', conflicts.length === 0, conflicts.map(c => `${c.useCaseId}: model ${c.modelRisk}, rules ${c.level}`).join('; '));
+  }
+  for (const [field, value] of Object.entries(expect.org || {})) {
+    const got = updates.org?.[field];
+    add(`org.${field}`, (got ?? null) === value, `expected ${value ?? 'nothing'}, got ${got ?? 'nothing'}`);
+  }
+  const reply = String(body.reply || '').toLowerCase();
+  for (const text of expect.replyIncludes || []) add(`reply includes "${text}"`, reply.includes(text.toLowerCase()), 'not found');
+  for (const text of expect.replyExcludes || []) add(`reply excludes "${text}"`, !reply.includes(text.toLowerCase()), 'found');
+  if (expect.minSources !== undefined) {
+    const count = (body.sources || []).length;
+    add('sources', count >= expect.minSources, `expected at least ${expect.minSources}, got ${count}`);
+  }
+  for (const prefix of expect.issues || []) {
+    add(`issue ${prefix}`, issues.some(i => i.path.startsWith(prefix)), `not reported; got [${issues.map(i => i.path)}]`);
+  }
+  for (const [field, value] of Object.entries(expect.usage || {})) {
+    const got = body.usage?.[field];
+    add(`usage.${field}`, JSON.stringify(got ?? null) === JSON.stringify(value), `expected ${JSON.stringify(value)}, got ${JSON.stringify(got ?? null)}`);
+  }
+  checks.push(...checkState(turn, merged, expect.state));
+  return checks;
+}
+
+function checkState(turn: number, merged: AgentState, expect: Expectation['state'] = {}): Check[] {
+  const checks: Check[] = [];
+  const add = (name: string, got: unknown, value: unknown) => {
+    const pass = JSON.stringify(got ?? null) === JSON.stringify(value);
+    checks.push({ turn, name, pass, ...(pass ? {} : { detail: `expected ${JSON.stringify(value)}, got ${JSON.stringify(got ?? null)}` }) });
+  };
+  for (const [field, value] of Object.entries(expect.org || {})) {
+    add(`state org.${field}`, (merged.org as Record<string, unknown> | undefined)?.[field], value);
+  }
+  for (const [id, fields] of Object.entries(expect.useCases || {})) {
+    const useCase = (merged.useCases || []).find(u => u.id === id) as Record<string, unknown> | undefined;
+    for (const [field, value] of Object.entries(fields)) add(`state ${id}.${field}`, useCase?.[field], value);
+  }
+  return checks;
+}
+
+/** Extracts a document the way an upload does and checks the outcome. */
+function checkDocument(turn: number, file: string, expect: Expectation): Check[] {
+  const checks: Check[] = [];
+  const add = (name: string, pass: boolean, detail: string) => checks.push({ turn, name, pass, ...(pass ? {} : { detail }) });
+  const name = path.basename(file);
+  const data = fs.readFileSync(file);
+  let status = 200;
+  let text: string;
+  try {
+    text = extractDocumentText(data, detectDocumentType(name, data), name);
+  } catch (error) {
+    if (!(error instanceof DocumentError)) throw error;
+    status = error.status;
+    text = error.message;
+  }
+  const expectedStatus = expect.status ?? 200;
+  add('status', status === expectedStatus, `expected ${expectedStatus}, got ${status}: ${text.slice(0, 200)}`);
+  checks.push(...checkText(turn, text, expect));
+  return checks;
+}
+
+function checkText(turn: number, text: string, expect: Expectation): Check[] {
+  const checks: Check[] = [];
+  const add = (name: string, pass: boolean, detail: string) => checks.push({ turn, name, pass, ...(pass ? {} : { detail }) });
+  for (const t of expect.textIncludes || []) add(`text includes "${t}"`, text.includes(t), `not found in ${JSON.stringify(text.slice(0, 200))}`);
+  for (const t of expect.textExcludes || []) add(`text excludes "${t}"`, !text.includes(t), 'found');
+  return checks;
+}
+
+/** Plays a scenario turn by turn, carrying state, transcript and summary like a stateless client. */
+async function runScenario(scenario: Scenario, live: boolean): Promise<ScenarioResult> {
+  if (!live) {
+    if (scenario.fixtures) process.env.LLM_MOCK_FIXTURES = scenario.fixtures;
+    else delete process.env.LLM_MOCK_FIXTURES;
+  }
+  const saved = Object.fromEntries(Object.keys(scenario.env || {}).map(k => [k, process.env[k]]));
+  Object.assign(process.env, scenario.env);
+  try {
+    return await playTurns(scenario);
+  } finally {
+    for (const [k, v] of Object.entries(saved)) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  }
+}
+
+async function playTurns(scenario: Scenario): Promise<ScenarioResult> {
+  let state: AgentState = scenario.state || {};
+  let transcript: TranscriptMessage[] = [];
+  let summary: ConversationSummary | undefined;
+  const checks: Check[] = [];
+
+  for (const [i, turn] of scenario.turns.entries()) {
+    if (turn.importCsv !== undefined) {
+      // Merged the way the inventory's import button does; no model call is made.
+      state = mergeAgentState(state, { useCases: parseUseCasesCsv(turn.importCsv) });
+      checks.push(...checkState(i + 1, state, turn.expect?.state));
+      continue;
+    }
+    if (turn.exportCsv) {
+      const csv = formatUseCasesCsv(state.useCases || []);
+      checks.push(...checkText(i + 1, csv, turn.expect || {}));
+      checks.push(...checkState(i + 1, mergeAgentState(state, { useCases: parseUseCasesCsv(csv) }), turn.expect?.state));
+      continue;
+    }
+    if (turn.document !== undefined) {
+      checks.push(...checkDocument(i + 1, turn.document, turn.expect || {}));
+      continue;
+    }
+    const { status, body } = await callChat(
+      { input: turn.input, model: turn.model, state, transcript, summary, locale: turn.locale, stream: turn.stream === true },
+      turn.headers
+    );
+    const merged = status === 200 && body ? mergeAgentState(state, body.stateUpdates) : state;
+    checks.push(...checkTurn(i + 1, status, body, turn.expect || {}, merged));
+    // An expected rejection leaves the conversation as it was; any other failure ends it.
+    if (status !== 200 || !body) {
+      if (status === (turn.expect?.status ?? 200)) continue;
+      break;
+    }
+
+    state = merged;
+    transcript = [...transcript, { sender: 'user', text: turn.input || '' }, { sender: 'bot', text: body.reply }];
+    summary = body.conversationSummary;
+  }
+
+  const passedChecks = checks.filter(c => c.pass).length;
+  return {
+    id: scenario.id,
+    score: checks.length ? passedChecks / checks.length : 0,
+    passed: checks.length > 0 && passedChecks === checks.length,
+    checks,
+  };
+}
+
+function seedUsage(scenarios: Scenario[]) {
+  const at = new Date().toISOString();
+  const lines = scenarios.flatMap(s =>
+    Object.entries(s.spent || {}).map(([client, costUsd]) =>
+      JSON.stringify({
+        at,
+        requestId: `seed-${s.id}`,
+        route: 'eval',
+        client,
+        provider: 'mock',
+        model: 'seed',
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        costUsd,
+        estimated: false,
+      })
+    )
+  );
+  fs.mkdirSync(path.dirname(USAGE_PATH), { recursive: true });
+  fs.writeFileSync(USAGE_PATH, lines.map(l => `${l}\n`).join(''));
+}
+
+function readBaseline(): Baseline | undefined {
+  if (!fs.existsSync(BASELINE_PATH)) return undefined;
+  return JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8')) as Baseline;
+}
+
+function printReport(report: Report, baseline: Baseline | undefined, filtered: boolean) {
+  const width = Math.max(...report.scenarios.map(s => s.id.length));
+  const promptNote = !baseline
+    ? 'no baseline'
+    : baseline.promptVersion === report.promptVersion
+      ? 'same as baseline'
+      : `baseline ${baseline.promptVersion}`;
+  console.log(`Prompt ${report.promptVersion} (${promptNote}), provider ${report.provider}\n`);
+
+  for (const s of report.scenarios) {
+    const passed = s.checks.filter(c => c.pass).length;
+    const before = baseline?.scores[s.id];
+    const delta = before === undefined ? ' (new)' : s.score === before ? '' : ` (${s.score > before ? '+' : ''}${(s.score - before).toFixed(2)})`;
+    console.log(`${s.passed ? 'PASS' : 'FAIL'}  ${s.id.padEnd(width)}  ${passed}/${s.checks.length}  ${s.score.toFixed(2)}${delta}`);
+    for (const c of s.checks.filter(c => !c.pass)) console.log(`      turn ${c.turn} ${c.name}: ${c.detail}`);
+  }
+  for (const id of filtered ? [] : Object.keys(baseline?.scores || {})) {
+    if (!report.scenarios.some(s => s.id === id)) console.log(`      ${id} is in the baseline but no longer exists`);
+  }
+
+  const all = report.scenarios.flatMap(s => s.checks);
+  const scenariosPassed = report.scenarios.filter(s => s.passed).length;
+  console.log(
+    `\n${scenariosPassed}/${report.scenarios.length} scenarios passed, ${all.filter(c => c.pass).length}/${all.length} checks`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const live = args.includes('--live');
+  const verbose = args.includes('--verbose');
+  const filter = args.filter(a => !a.startsWith('--'));
+  const scenarios = loadScenarios(filter);
+  if (scenarios.length === 0) throw new Error('No scenarios matched');
+
+  if (!live) process.env.LLM_PROVIDER = 'mock';
+  // Research runs against the bundled register and corpus so results do not depend on the network.
+  process.env.RESEARCH_TOOLS = process.env.RESEARCH_TOOLS || 'local';
+  // Every turn runs in this process as the same client.
+  process.env.RATE_LIMIT_PER_MINUTE = '0';
+  // Usage goes to a log of the run's own, seeded up front since monthly spend is read once.
+  process.env.USAGE_LOG_PATH = USAGE_PATH;
+  seedUsage(scenarios);
+
+  // The handler logs every model reply; keep the report readable unless asked otherwise.
+  const log = console.log;
+  const warn = console.warn;
+  const results: ScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    if (!verbose) console.log = console.warn = () => {};
+    try {
+      results.push(await runScenario(scenario, live));
+    } finally {
+      console.log = log;
+      console.warn = warn;
+    }
+  }
+
+  const report: Report = {
+    promptVersion,
+    provider: process.env.LLM_PROVIDER || 'openai',
+    ranAt: new Date().toISOString(),
+    scenarios: results,
+  };
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, JSON.stringify(report, null, 2));
+
+  const baseline = readBaseline();
+  printReport(report, baseline, filter.length > 0);
+  console.log(`Report written to ${path.relative(process.cwd(), REPORT_PATH)}`);
+
+  if (args.includes('--update-baseline')) {
+    const scores = { ...(baseline?.scores || {}), ...Object.fromEntries(results.map(r => [r.id, r.score])) };
+    fs.writeFileSync(BASELINE_PATH, `${JSON.stringify({ promptVersion, scores }, null, 2)}\n`);
+    console.log(`Baseline updated in ${path.relative(process.cwd(), BASELINE_PATH)}`);
+  }
+
+  if (results.some(r => !r.passed)) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error?.message || error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,104 @@
+import type { FriaRecord } from './fria';
+import type { ObligationRecord } from './obligations';
+import type { RoleAssignment } from './roles';
+import type { TrackedRoadmapEntry } from './roadmap';
+import type { TransparencyNotice } from './transparency';
+import type { VendorEntry } from './vendors';
+
+export type AgentState = {
+  org?: { name?: string; country?: string; industry?: string; size?: string };
+  roles?: string[];
+  // Questionnaire answers per use case; its roles override `roles` for that use case.
+  roleAssignments?: RoleAssignment[];
+  useCases?: Array<{
+    id: string;
+    name?: string;
+    description?: string;
+    process?: string;
+    inScope?: boolean;
+    risk?: 'minimal' | 'limited' | 'high' | 'prohibited' | 'unknown';
+    model?: string;
+    // Registry entry for the model; `model` then holds the entry's name.
+    vendorId?: string;
+    data?: string[];
+    subjects?: string[];
+    owner?: string;
+    jurisdictions?: string[];
+  }>;
+  roadmap?: TrackedRoadmapEntry[];
+  obligations?: ObligationRecord[];
+  frias?: FriaRecord[];
+  transparency?: TransparencyNotice[];
+  vendors?: VendorEntry[];
+};
+
+// Fields the input left out stay out, so merging a partial update keeps the stored values.
+const definedOnly = <T extends object>(o: T): T =>
+  Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as T;
+
+export function sanitizeStateUpdates(input: any): Partial<AgentState> | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+
+  const su: Partial<AgentState> = {};
+
+  if (input.org && typeof input.org === 'object') {
+    su.org = definedOnly({
+      name: input.org.name ? String(input.org.name) : undefined,
+      country: input.org.country ? String(input.org.country) : undefined,
+      industry: input.org.industry ? String(input.org.industry) : undefined,
+      size: input.org.size ? String(input.org.size) : undefined,
+    });
+  }
+
+  if (Array.isArray(input.roles)) {
+    su.roles = input.roles.filter((r: any) => typeof r === 'string');
+  }
+
+  if (Array.isArray(input.useCases)) {
+    su.useCases = input.useCases.map((u: any, idx: number) => definedOnly({
+      id: u.id || `uc-${Date.now()}-${idx}`,
+      name: u.name ? String(u.name) : undefined,
+      description: u.description ? String(u.description) : undefined,
+      process: u.process ? String(u.process) : undefined,
+      inScope: typeof u.inScope === 'boolean' ? u.inScope : undefined,
+      risk: ['minimal', 'limited', 'high', 'prohibited', 'unknown'].includes(u.risk)
+        ? u.risk
+        : undefined,
+      model: u.model ? String(u.model) : undefined,
+      vendorId: u.vendorId ? String(u.vendorId) : undefined,
+      data: Array.isArray(u.data)
+        ? u.data.filter((x: any) => typeof x === 'string')
+        : undefined,
+      subjects: Array.isArray(u.subjects)
+        ? u.subjects.filter((x: any) => typeof x === 'string')
+        : undefined,
+      owner: u.owner ? String(u.owner) : undefined,
+      jurisdictions: Array.isArray(u.jurisdictions)
+        ? u.jurisdictions.filter((x: any) => typeof x === 'string')
+        : undefined,
+    }));
+  }
+
+  return su;
+}
+
+export function mergeAgentState(prev: AgentState, update?: Partial<AgentState>): AgentState {
+  if (!update) return prev;
+  return {
+    ...prev,
+    ...(update?.org ? { org: { ...(prev.org || {}), ...definedOnly(update.org) } } : {}),
+    ...(update?.roles ? { roles: update.roles } : {}),
+    ...(update?.useCases
+      ? {
+          useCases: (() => {
+            const existing = prev.useCases || [];
+            const incoming = update.useCases || [];
+            const byId = new Map<string, any>();
+            for (const u of existing) byId.set(u.id, u);
+            for (const u of incoming) byId.set(u.id, { ...(byId.get(u.id) || {}), ...definedOnly(u) });
+            return Array.from(byId.values());
+          })(),
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,90 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextApiHandler, NextApiRequest } from 'next';
+
+/** Keys accepted by the `/api/v1` routes, from the comma-separated `API_KEYS`. */
+export function configuredApiKeys(): string[] {
+  return (process.env.API_KEYS || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean);
+}
+
+/** Keys accepted by the admin routes, from the comma-separated `ADMIN_API_KEYS`. */
+export function configuredAdminKeys(): string[] {
+  return (process.env.ADMIN_API_KEYS || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean);
+}
+
+/** Cookie holding the key the browser app signed in with (see `/api/session`). */
+export const SESSION_COOKIE = 'assistant_key';
+
+/** The key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`. */
+function presentedKey(req: NextApiRequest): string | undefined {
+  const auth = req.headers.authorization;
+  if (typeof auth === 'string' && /^bearer\s+/i.test(auth)) return auth.replace(/^bearer\s+/i, '').trim();
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' ? header.trim() : undefined;
+}
+
+/** A presented key, or the browser app's session cookie. */
+function appKey(req: NextApiRequest): string | undefined {
+  return presentedKey(req) || req.cookies?.[SESSION_COOKIE] || undefined;
+}
+
+/** With `REQUIRE_API_KEY=true` the browser app's routes need a key from `API_KEYS` too. */
+export function appKeyRequired(): boolean {
+  return process.env.REQUIRE_API_KEY === 'true';
+}
+
+// Hashing first gives equal-length buffers, so the comparison time does not depend on the key.
+const digest = (s: string) => createHash('sha256').update(s).digest();
+
+export function isValidKey(key: string, keys: string[]): boolean {
+  const presented = digest(key);
+  return keys.reduce((ok, k) => timingSafeEqual(presented, digest(k)) || ok, false);
+}
+
+/** The presented or signed-in key when it is one of `API_KEYS`; callers sending anything else stay anonymous. */
+export function verifiedApiKey(req: NextApiRequest): string | undefined {
+  const key = appKey(req);
+  return key && isValidKey(key, configuredApiKeys()) ? key : undefined;
+}
+
+function withKeys(
+  handler: NextApiHandler,
+  keysFrom: () => string[],
+  envName: string,
+  what: string,
+  keyOf: (req: NextApiRequest) => string | undefined = presentedKey
+): NextApiHandler {
+  return (req, res) => {
+    const keys = keysFrom();
+    if (keys.length === 0) {
+      return res.status(503).json({ error: `The ${what} is disabled; set ${envName} on the server to enable it` });
+    }
+    const key = keyOf(req);
+    if (!key || !isValidKey(key, keys)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: 'Missing or invalid API key' });
+    }
+    return handler(req, res);
+  };
+}
+
+/** Rejects requests without a configured API key before they reach `handler`. */
+export const withApiKey = (handler: NextApiHandler) => withKeys(handler, configuredApiKeys, 'API_KEYS', 'API');
+
+/**
+ * Guards the routes the browser app calls. Open unless `REQUIRE_API_KEY=true`; then they
+ * take the same keys as `/api/v1`, sent as a header or through the session cookie.
+ */
+export function withAppAuth(handler: NextApiHandler): NextApiHandler {
+  const guarded = withKeys(handler, configuredApiKeys, 'API_KEYS', 'app', appKey);
+  return (req, res) => (appKeyRequired() ? guarded(req, res) : handler(req, res));
+}
+
+/** Rejects requests without a configured admin key; API keys are not accepted. */
+export const withAdminKey = (handler: NextApiHandler) => withKeys(handler, configuredAdminKeys, 'ADMIN_API_KEYS', 'admin API');
+
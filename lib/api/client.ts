@@ -0,0 +1,90 @@
+import { readEventStream } from '../sse';
+import type {
+  AssessmentState,
+  AssessmentSummary,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  ClassifyRequest,
+  ClassifyResponse,
+  CreateAssessmentRequest,
+  UpdateStateRequest,
+} from './types';
+
+export class ApiClientError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiClientError';
+  }
+}
+
+export type ApiClientOptions = {
+  // Origin of the deployment, e.g. `https://assistant.example.com`.
+  baseUrl: string;
+  apiKey: string;
+  // Defaults to the global fetch.
+  fetch?: typeof fetch;
+};
+
+/**
+ * Typed client for `/api/v1`. Works in Node 18+ and browsers; failed requests throw an
+ * `ApiClientError` carrying the HTTP status and the server's error message.
+ */
+export function createApiClient(opts: ApiClientOptions) {
+  const fetchImpl = opts.fetch ?? fetch;
+  const root = `${opts.baseUrl.replace(/\/+$/, '')}/api/v1`;
+
+  const send = async (method: string, path: string, body?: unknown): Promise<Response> => {
+    const res = await fetchImpl(`${root}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${opts.apiKey}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new ApiClientError(err?.error || `Request failed with status ${res.status}`, res.status);
+    }
+    return res;
+  };
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> =>
+    (await send(method, path, body)).json() as Promise<T>;
+
+  const statePath = (id: string) => `/assessments/${encodeURIComponent(id)}/state`;
+
+  return {
+    chat: (req: Omit<ChatRequest, 'stream'>) => request<ChatResponse>('POST', '/chat', { ...req, stream: false }),
+
+    /** Streams the reply, calling `onEvent` per event; resolves with the `final` payload. */
+    async chatStream(req: Omit<ChatRequest, 'stream'>, onEvent?: (e: ChatStreamEvent) => void): Promise<ChatResponse> {
+      const res = await send('POST', '/chat', { ...req, stream: true });
+      let final: ChatResponse | undefined;
+      let failure: string | undefined;
+      await readEventStream(res, e => {
+        const event = e as ChatStreamEvent;
+        if (event.event === 'final') final = event.data;
+        if (event.event === 'error') failure = event.data.error;
+        onEvent?.(event);
+      });
+      if (failure) throw new ApiClientError(failure, 502);
+      if (!final) throw new ApiClientError('The stream ended before the reply was complete', 502);
+      return final;
+    },
+
+    listAssessments: async () =>
+      (await request<{ assessments: AssessmentSummary[] }>('GET', '/assessments')).assessments,
+
+    createAssessment: (input: CreateAssessmentRequest = {}) => request<AssessmentState>('POST', '/assessments', input),
+
+    getState: (id: string) => request<AssessmentState>('GET', statePath(id)),
+
+    updateState: (id: string, input: UpdateStateRequest) => request<AssessmentState>('PUT', statePath(id), input),
+
+    classify: async (useCases: ClassifyRequest['useCases']) =>
+      (await request<ClassifyResponse>('POST', '/classify', { useCases })).classifications,
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,399 @@
+import { GUARDRAIL_ERROR_CODES, GuardrailReport, PII_KINDS } from '../guardrails/types';
+import { LOCALES } from '../i18n/locales';
+import { CONTRACT_LIMITS, RISK_LEVELS, ROLES, RoadmapEntry } from '../responseSchema';
+import type { MessagePayload } from '../transcript';
+import type {
+  AgentState,
+  ApiErrorBody,
+  AssessmentState,
+  AssessmentSummary,
+  ChatRequest,
+  ChatResponse,
+  ClassifyRequest,
+  ClassifyResponse,
+  ConversationSummary,
+  CreateAssessmentRequest,
+  TranscriptMessage,
+  UpdateStateRequest,
+  UseCase,
+  UseCaseClassification,
+} from './types';
+
+export const API_VERSION = '1.0.0';
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const strings = (maxItems?: number): Schema => ({ type: 'array', items: { type: 'string' }, ...(maxItems ? { maxItems } : {}) });
+const object = (properties: Record<string, Schema>, required: string[] = []): Schema => ({
+  type: 'object',
+  properties,
+  ...(required.length > 0 ? { required } : {}),
+});
+
+type RequiredKeys<T> = { [K in keyof T]-?: Pick<T, K> extends Required<Pick<T, K>> ? K : never }[keyof T];
+
+type Missing<T, R extends readonly unknown[]> = Exclude<RequiredKeys<T>, R[number]>;
+
+/**
+ * An object schema for the type `T` from ./types. The compiler rejects a property the type
+ * lacks, a field of the type left out here, and a `required` list that differs from its
+ * non-optional fields, so the document cannot drift from the types the server uses.
+ */
+const objectOf =
+  <T>() =>
+  <const R extends readonly RequiredKeys<T>[]>(
+    properties: { [K in keyof T]-?: Schema },
+    required: R & ([Missing<T, R>] extends [never] ? unknown : { missingRequired: Missing<T, R> })
+  ): Schema =>
+    object(properties, [...required] as string[]);
+
+const SCHEMAS: Record<string, Schema> = {
+  Error: objectOf<ApiErrorBody>()(
+    {
+      error: { type: 'string' },
+      code: { type: 'string', enum: [...GUARDRAIL_ERROR_CODES], description: 'Set when a guardrail rejected the request' },
+      retryAfter: { type: 'integer', description: 'Seconds to wait before retrying a rate-limited request' },
+    },
+    ['error']
+  ),
+  RiskLevel: { type: 'string', enum: [...RISK_LEVELS] },
+  Role: { type: 'string', enum: [...ROLES] },
+  UseCase: objectOf<UseCase>()(
+    {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      process: { type: 'string' },
+      inScope: { type: 'boolean' },
+      risk: ref('RiskLevel'),
+      model: { type: 'string' },
+      vendorId: { type: 'string', description: 'Id of the linked entry in `vendors`' },
+      data: strings(),
+      subjects: strings(),
+      owner: { type: 'string' },
+      jurisdictions: strings(),
+    },
+    ['id']
+  ),
+  AgentState: objectOf<AgentState>()(
+    {
+      org: objectOf<NonNullable<AgentState['org']>>()(
+        { name: { type: 'string' }, country: { type: 'string' }, industry: { type: 'string' }, size: { type: 'string' } },
+        []
+      ),
+      roles: { type: 'array', items: ref('Role') },
+      roleAssignments: { type: 'array', items: { type: 'object' }, description: 'Role questionnaire answers per use case (Art. 25)' },
+      useCases: { type: 'array', items: ref('UseCase') },
+      roadmap: { type: 'array', items: { type: 'object' }, description: 'Tracked roadmap tasks per use case' },
+      obligations: { type: 'array', items: { type: 'object' }, description: 'Obligation tracking records' },
+      frias: { type: 'array', items: { type: 'object' }, description: 'Fundamental rights impact assessments (Art. 27) per use case' },
+      transparency: { type: 'array', items: { type: 'object' }, description: 'Article 50 transparency notices per use case' },
+      vendors: { type: 'array', items: { type: 'object' }, description: 'Registry of third-party models and their suppliers' },
+    },
+    []
+  ),
+  TranscriptMessage: objectOf<TranscriptMessage>()(
+    {
+      sender: { type: 'string', enum: ['user', 'bot'] },
+      text: { type: 'string' },
+      at: { type: 'string', format: 'date-time' },
+      payload: ref('MessagePayload'),
+    },
+    ['sender', 'text']
+  ),
+  MessagePayload: objectOf<MessagePayload>()(
+    {
+      guidance: strings(CONTRACT_LIMITS.guidance),
+      questions: strings(CONTRACT_LIMITS.questions),
+      examples: strings(CONTRACT_LIMITS.examples),
+      suggestions: strings(CONTRACT_LIMITS.suggestions),
+      roadmap: { type: 'array', items: ref('RoadmapEntry') },
+      citations: { type: 'array', items: ref('Citation') },
+      sources: { type: 'array', items: ref('Source') },
+    },
+    []
+  ),
+  ConversationSummary: objectOf<ConversationSummary>()(
+    { text: { type: 'string' }, coversMessages: { type: 'integer' }, updatedAt: { type: 'string', format: 'date-time' } },
+    ['text', 'coversMessages', 'updatedAt']
+  ),
+  RoadmapEntry: objectOf<RoadmapEntry>()(
+    {
+      useCaseId: { type: 'string' },
+      useCaseName: { type: 'string' },
+      risk: objectOf<NonNullable<RoadmapEntry['risk']>>()({ level: ref('RiskLevel'), rationale: { type: 'string' } }, ['level']),
+      tasks: {
+        type: 'array',
+        items: objectOf<RoadmapEntry['tasks'][number]>()(
+          {
+            title: { type: 'string' },
+            owner: { type: 'string' },
+            dueInDays: { type: 'integer', minimum: 0, maximum: CONTRACT_LIMITS.maxDueInDays },
+            acceptance: { type: 'string' },
+          },
+          ['title']
+        ),
+      },
+    },
+    ['useCaseId', 'tasks']
+  ),
+  Classification: objectOf<UseCaseClassification>()(
+    {
+      useCaseId: { type: 'string' },
+      level: ref('RiskLevel'),
+      ruleId: { type: 'string' },
+      rule: { type: 'string' },
+      article: { type: 'string' },
+      matched: strings(),
+      alsoMatched: {
+        type: 'array',
+        items: objectOf<UseCaseClassification['alsoMatched'][number]>()(
+          { ruleId: { type: 'string' }, level: ref('RiskLevel'), article: { type: 'string' } },
+          ['ruleId', 'level', 'article']
+        ),
+      },
+      modelRisk: ref('RiskLevel'),
+      conflict: { type: 'boolean', description: 'The supplied risk label disagrees with the rule-based level' },
+    },
+    ['useCaseId', 'level', 'matched', 'alsoMatched', 'conflict']
+  ),
+  ValidationReport: objectOf<ChatResponse['validation']>()(
+    {
+      valid: { type: 'boolean' },
+      repaired: { type: 'boolean' },
+      repairAttempts: { type: 'integer' },
+      issues: {
+        type: 'array',
+        items: objectOf<ChatResponse['validation']['issues'][number]>()(
+          { path: { type: 'string' }, action: { type: 'string', enum: ['dropped', 'corrected'] }, message: { type: 'string' } },
+          ['path', 'action', 'message']
+        ),
+      },
+    },
+    ['valid', 'repaired', 'repairAttempts', 'issues']
+  ),
+  Source: objectOf<ChatResponse['sources'][number]>()(
+    {
+      id: { type: 'string', example: 'S1' },
+      tool: { type: 'string' },
+      title: { type: 'string' },
+      url: { type: 'string' },
+      snippet: { type: 'string' },
+      retrievedAt: { type: 'string', format: 'date-time' },
+    },
+    ['id', 'tool', 'title', 'snippet', 'retrievedAt']
+  ),
+  GuardrailReport: objectOf<GuardrailReport>()(
+    {
+      redactions: {
+        type: 'object',
+        properties: Object.fromEntries(PII_KINDS.map(k => [k, { type: 'integer' }])),
+        description: 'Distinct personal data values pseudonymised before the model call, per kind',
+      },
+      injection: {
+        type: 'array',
+        items: objectOf<GuardrailReport['injection'][number]>()(
+          { source: { type: 'string' }, pattern: { type: 'string' }, excerpt: { type: 'string' } },
+          ['source', 'pattern', 'excerpt']
+        ),
+      },
+      droppedExcerpts: { type: 'integer', description: 'Flagged document excerpts left out (`PROMPT_INJECTION_MODE=block`)' },
+    },
+    ['redactions', 'injection']
+  ),
+  Usage: objectOf<NonNullable<ChatResponse['usage']>>()(
+    {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      calls: { type: 'integer', description: 'Model calls made for the turn, including summarising and JSON repair' },
+      inputTokens: { type: 'integer' },
+      outputTokens: { type: 'integer' },
+      totalTokens: { type: 'integer' },
+      costUsd: { type: ['number', 'null'], description: 'Null when the model has no price configured' },
+      estimated: { type: 'boolean', description: 'Some counts were estimated because the provider reported none' },
+      downgradedFrom: { type: 'string', description: 'Model requested before the usage budget switched to a cheaper one' },
+    },
+    ['provider', 'model', 'calls', 'inputTokens', 'outputTokens', 'totalTokens', 'costUsd', 'estimated']
+  ),
+  Citation: objectOf<ChatResponse['citations'][number]>()(
+    { documentId: { type: 'string' }, name: { type: 'string' }, chunks: { type: 'array', items: { type: 'integer' } } },
+    ['documentId', 'name', 'chunks']
+  ),
+  ChatRequest: objectOf<ChatRequest>()(
+    {
+      input: { type: 'string' },
+      assessmentId: { type: 'string', description: 'Chat against a stored assessment; the turn is saved with it' },
+      state: ref('AgentState'),
+      transcript: { type: 'array', items: ref('TranscriptMessage') },
+      summary: ref('ConversationSummary'),
+      locale: { type: 'string', enum: Object.keys(LOCALES) },
+      model: { type: 'string', description: '`<provider>:<model>`, e.g. `compatible:mistral-large-latest`' },
+      stream: { type: 'boolean', description: 'Reply as `text/event-stream` with `delta`, `tool`, `final` and `error` events' },
+    },
+    ['input']
+  ),
+  ChatResponse: objectOf<ChatResponse>()(
+    {
+      reply: { type: 'string' },
+      suggestions: strings(CONTRACT_LIMITS.suggestions),
+      guidance: strings(CONTRACT_LIMITS.guidance),
+      questions: strings(CONTRACT_LIMITS.questions),
+      examples: strings(CONTRACT_LIMITS.examples),
+      roadmap: { type: 'array', items: ref('RoadmapEntry') },
+      stateUpdates: ref('AgentState'),
+      useCases: { type: 'array', items: ref('UseCase') },
+      classifications: { type: 'array', items: ref('Classification') },
+      riskConflicts: { type: 'array', items: ref('Classification') },
+      validation: ref('ValidationReport'),
+      citations: { type: 'array', items: ref('Citation') },
+      sources: { type: 'array', items: ref('Source') },
+      guardrails: ref('GuardrailReport'),
+      usage: ref('Usage'),
+      conversationSummary: ref('ConversationSummary'),
+      assessment: { type: 'object', description: 'Stored assessments only: the assessment after the turn was saved' },
+    },
+    ['reply', 'validation', 'citations', 'sources']
+  ),
+  AssessmentSummary: objectOf<AssessmentSummary>()(
+    {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+      version: { type: 'integer' },
+      archivedAt: { type: 'string', format: 'date-time', description: 'Set while the assessment is archived' },
+      orgName: { type: 'string' },
+      useCaseCount: { type: 'integer' },
+      riskCounts: {
+        type: 'object',
+        properties: Object.fromEntries(RISK_LEVELS.map(level => [level, { type: 'integer' }])),
+        description: 'In-scope use cases per effective risk level',
+      },
+      openTasks: { type: 'integer', description: 'Roadmap tasks not yet done' },
+    },
+    ['id', 'name', 'createdAt', 'updatedAt', 'version', 'useCaseCount', 'riskCounts', 'openTasks']
+  ),
+  AssessmentState: objectOf<AssessmentState>()(
+    {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      version: { type: 'integer' },
+      updatedAt: { type: 'string', format: 'date-time' },
+      state: ref('AgentState'),
+    },
+    ['id', 'name', 'version', 'updatedAt', 'state']
+  ),
+  CreateAssessmentRequest: objectOf<CreateAssessmentRequest>()(
+    { name: { type: 'string' }, state: ref('AgentState'), message: { type: 'string' } },
+    []
+  ),
+  UpdateStateRequest: objectOf<UpdateStateRequest>()(
+    {
+      state: ref('AgentState'),
+      version: { type: 'integer', description: 'Rejected with 409 when the assessment has changed since this version' },
+      message: { type: 'string', description: 'Shown in the change log' },
+    },
+    ['state']
+  ),
+  ClassifyRequest: objectOf<ClassifyRequest>()({ useCases: { type: 'array', items: ref('UseCase'), minItems: 1, maxItems: 100 } }, ['useCases']),
+  ClassifyResponse: objectOf<ClassifyResponse>()({ classifications: { type: 'array', items: ref('Classification') } }, ['classifications']),
+};
+
+const json = (schema: Schema) => ({ 'application/json': { schema } });
+const error = (description: string) => ({ description, content: json(ref('Error')) });
+
+const AUTH_ERRORS = {
+  '401': error('Missing or invalid API key'),
+  '503': error('The API is disabled because no API keys are configured'),
+};
+
+/** The OpenAPI 3.1 description of `/api/v1`, built from the same constants the server validates with. */
+export function buildOpenApiDocument(serverUrl = '/api/v1') {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'EU AI Act assistant API',
+      version: API_VERSION,
+      description:
+        'Chat with the compliance assistant, read and update assessment state, and classify AI use cases. ' +
+        'Send an API key as `Authorization: Bearer <key>` or `X-API-Key`.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearer: [] }, { apiKey: [] }],
+    paths: {
+      '/chat': {
+        post: {
+          operationId: 'chat',
+          summary: 'Send a message to the assistant',
+          requestBody: { required: true, content: json(ref('ChatRequest')) },
+          responses: {
+            '200': {
+              description: 'The reply with its structured fields, or an event stream when `stream` is true',
+              content: { ...json(ref('ChatResponse')), 'text/event-stream': { schema: { type: 'string' } } },
+            },
+            '400': error('Invalid request, a blocked prompt injection (`code: prompt_injection`) or a model without a price while a usage budget is set (`code: model_unpriced`)'),
+            '402': error('Monthly usage budget spent (`code: budget_exceeded`)'),
+            '404': error('Unknown assessment'),
+            '413': error('Message or client-supplied state too large'),
+            '429': error('Rate limit exceeded; see the `Retry-After` header'),
+            ...AUTH_ERRORS,
+            default: error('Server or model provider error'),
+          },
+        },
+      },
+      '/assessments': {
+        get: {
+          operationId: 'listAssessments',
+          summary: 'List stored assessments',
+          responses: {
+            '200': { description: 'Assessments, most recently updated first', content: json(object({ assessments: { type: 'array', items: ref('AssessmentSummary') } }, ['assessments'])) },
+            ...AUTH_ERRORS,
+          },
+        },
+        post: {
+          operationId: 'createAssessment',
+          summary: 'Create an assessment',
+          requestBody: { content: json(ref('CreateAssessmentRequest')) },
+          responses: { '201': { description: 'The new assessment', content: json(ref('AssessmentState')) }, ...AUTH_ERRORS },
+        },
+      },
+      '/assessments/{id}/state': {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        get: {
+          operationId: 'getState',
+          summary: "Read an assessment's state",
+          responses: { '200': { description: 'Current state', content: json(ref('AssessmentState')) }, '404': error('Unknown assessment'), ...AUTH_ERRORS },
+        },
+        put: {
+          operationId: 'updateState',
+          summary: "Replace an assessment's state",
+          requestBody: { required: true, content: json(ref('UpdateStateRequest')) },
+          responses: {
+            '200': { description: 'Updated state', content: json(ref('AssessmentState')) },
+            '400': error('Invalid request'),
+            '404': error('Unknown assessment'),
+            '409': error('The assessment changed since `version`'),
+            ...AUTH_ERRORS,
+          },
+        },
+      },
+      '/classify': {
+        post: {
+          operationId: 'classify',
+          summary: 'Classify use cases with the rule-based risk classifier',
+          description: 'Runs without the model. A `risk` sent with a use case is compared with the rule-based level and reported as `conflict`.',
+          requestBody: { required: true, content: json(ref('ClassifyRequest')) },
+          responses: { '200': { description: 'One classification per use case', content: json(ref('ClassifyResponse')) }, '400': error('Invalid request'), ...AUTH_ERRORS },
+        },
+      },
+    },
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+}
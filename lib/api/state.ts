@@ -0,0 +1,7 @@
+import type { Assessment } from '../assessmentStore';
+import type { AssessmentState } from './types';
+
+/** The slice of a stored assessment the API exposes as its state resource. */
+export function toAssessmentState(a: Assessment): AssessmentState {
+  return { id: a.id, name: a.name, version: a.version, updatedAt: a.updatedAt, state: a.state };
+}
@@ -0,0 +1,93 @@
+import type { AgentState } from '../agentState';
+import type { AssessmentSummary, ClientAssessment, TranscriptMessage } from '../assessmentStore';
+import type { ConversationSummary } from '../conversation';
+import type { DocumentCitation } from '../documents';
+import type { GuardrailErrorCode, GuardrailReport } from '../guardrails/types';
+import type { Locale } from '../i18n/locales';
+import type { ContractReport } from '../modelJson';
+import type { ResearchSource } from '../research/types';
+import type { RoadmapEntry } from '../responseSchema';
+import type { RiskClassification } from '../riskClassifier';
+import type { TurnUsage } from '../usage';
+
+/**
+ * Request and response shapes of the HTTP API. The browser UI, the `/api/v1` routes, the
+ * OpenAPI document in `./openapi` and the typed client in `./client` all use these, so
+ * a change here is a change to the public contract.
+ */
+
+export type { AgentState, AssessmentSummary, ClientAssessment, ConversationSummary, TranscriptMessage };
+
+export type UseCase = NonNullable<AgentState['useCases']>[number];
+
+export type ApiErrorBody = {
+  error: string;
+  // Set when a guardrail rejected the request.
+  code?: GuardrailErrorCode;
+  // Seconds to wait before retrying a rate-limited request.
+  retryAfter?: number;
+};
+
+export type ChatRequest = {
+  input: string;
+  // Chat against a stored assessment; its state, transcript and documents are used and the turn is saved.
+  assessmentId?: string;
+  // Without `assessmentId` the caller keeps the state, transcript and summary itself.
+  state?: AgentState;
+  transcript?: TranscriptMessage[];
+  summary?: ConversationSummary;
+  locale?: Locale;
+  // `<provider>:<model>`, e.g. `compatible:mistral-large-latest`.
+  model?: string;
+  stream?: boolean;
+};
+
+export type UseCaseClassification = RiskClassification & { useCaseId: string };
+
+export type ChatResponse = {
+  reply: string;
+  // The structured fields are omitted when the model's reply did not include them.
+  suggestions?: string[];
+  guidance?: string[];
+  questions?: string[];
+  examples?: string[];
+  roadmap?: RoadmapEntry[];
+  stateUpdates?: Partial<AgentState>;
+  useCases?: UseCase[];
+  classifications?: UseCaseClassification[];
+  riskConflicts?: UseCaseClassification[];
+  validation: ContractReport;
+  citations: DocumentCitation[];
+  sources: ResearchSource[];
+  // Present when personal data was pseudonymised or possible prompt injection was found.
+  guardrails?: GuardrailReport;
+  // Tokens and cost of the model calls made for this turn.
+  usage?: TurnUsage;
+  // Stateless chats only: send it back as `summary` with the next turn.
+  conversationSummary?: ConversationSummary;
+  // Stored assessments only: the assessment after the turn was saved.
+  assessment?: ClientAssessment;
+};
+
+/** Events of a streamed chat (`stream: true`), sent as `text/event-stream`. */
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'tool'; data: { calls: string[]; sources: ResearchSource[] } }
+  | { event: 'final'; data: ChatResponse }
+  | { event: 'error'; data: ApiErrorBody };
+
+export type CreateAssessmentRequest = { name?: string; state?: AgentState; message?: string };
+
+export type AssessmentState = { id: string; name: string; version: number; updatedAt: string; state: AgentState };
+
+export type UpdateStateRequest = {
+  state: AgentState;
+  // Current version; the update is rejected with 409 when the assessment has changed since.
+  version?: number;
+  // Shown in the assessment's change log.
+  message?: string;
+};
+
+export type ClassifyRequest = { useCases: Array<Partial<UseCase> & { id: string }> };
+
+export type ClassifyResponse = { classifications: UseCaseClassification[] };
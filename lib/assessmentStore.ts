@@ -0,0 +1,396 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentState, mergeAgentState, sanitizeStateUpdates } from './agentState';
+import { ConversationSummary, sanitizeSummary } from './conversation';
+import { AssessmentDocument, buildDocument, DocumentSummary, documentSummary, MAX_DOCUMENTS } from './documents';
+import { RISK_LEVELS, RoadmapEntry } from './responseSchema';
+import { sanitizeFrias } from './fria';
+import { effectiveRisk, sanitizeObligations } from './obligations';
+import { mergeRoadmap, sanitizeRoadmap } from './roadmap';
+import { sanitizeRoleAssignments } from './roles';
+import { ChangeSource, diffState, FieldChange, revertChange, StateChange, stateAt } from './stateHistory';
+import { taskDeadlines } from './timeline';
+import { keepsPrefix, MessagePayload, sanitizePayload } from './transcript';
+import { sanitizeTransparencyNotices } from './transparency';
+import { sanitizeVendors } from './vendors';
+
+export type TranscriptMessage = {
+  sender: 'user' | 'bot';
+  text: string;
+  at?: string;
+  // Assistant replies only: the structured fields that came with the reply.
+  payload?: MessagePayload;
+};
+
+export type Assessment = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // Incremented on every write; updates carrying a stale version are rejected.
+  version: number;
+  state: AgentState;
+  transcript: TranscriptMessage[];
+  // Summary of the transcript turns that no longer fit in the chat context.
+  summary?: ConversationSummary;
+  // Append-only log of state changes, oldest first. Missing on assessments created before logging.
+  changes?: StateChange[];
+  // Uploaded files with their extracted text, used as chat context.
+  documents?: AssessmentDocument[];
+  // Set while the assessment is archived: hidden from the workspace switcher but kept.
+  archivedAt?: string;
+};
+
+/** An assessment as returned by the API: documents without their extracted text. */
+export type ClientAssessment = Omit<Assessment, 'documents'> & { documents?: DocumentSummary[] };
+
+export function toClientAssessment(a: Assessment): ClientAssessment {
+  const { documents, ...rest } = a;
+  return documents ? { ...rest, documents: documents.map(documentSummary) } : rest;
+}
+
+export type AssessmentSummary = Pick<Assessment, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'version' | 'archivedAt'> & {
+  orgName?: string;
+  useCaseCount: number;
+  // In-scope use cases per effective risk level (the stricter of label and rule-based check).
+  riskCounts: Record<(typeof RISK_LEVELS)[number], number>;
+  // Roadmap tasks not yet done.
+  openTasks: number;
+};
+
+export function assessmentSummary(a: Assessment): AssessmentSummary {
+  const useCases = a.state?.useCases || [];
+  const riskCounts = Object.fromEntries(RISK_LEVELS.map(level => [level, 0])) as AssessmentSummary['riskCounts'];
+  for (const u of useCases) {
+    if (u.inScope !== false) riskCounts[effectiveRisk(u)]++;
+  }
+  return {
+    id: a.id,
+    name: a.name,
+    createdAt: a.createdAt,
+    updatedAt: a.updatedAt,
+    version: a.version,
+    ...(a.archivedAt ? { archivedAt: a.archivedAt } : {}),
+    orgName: a.state?.org?.name,
+    useCaseCount: useCases.length,
+    riskCounts,
+    openTasks: (a.state?.roadmap || []).reduce((n, e) => n + e.tasks.filter(t => t.status !== 'done').length, 0),
+  };
+}
+
+export class AssessmentStoreError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AssessmentStoreError';
+  }
+}
+
+const ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+function storeDir(): string {
+  return process.env.ASSESSMENTS_DIR || path.join(process.cwd(), 'data', 'assessments');
+}
+
+function fileFor(id: string): string {
+  if (!ID_PATTERN.test(id)) throw new AssessmentStoreError('Invalid assessment id', 400);
+  return path.join(storeDir(), `${id}.json`);
+}
+
+export function sanitizeState(input: any): AgentState {
+  const su = sanitizeStateUpdates(input) || {};
+  const vendors = sanitizeVendors(input?.vendors);
+  return {
+    org: su.org,
+    roles: su.roles || [],
+    // Links to registry entries that no longer exist are dropped.
+    useCases: (su.useCases || []).map(u => (u.vendorId && !vendors.some(v => v.id === u.vendorId) ? { ...u, vendorId: undefined } : u)),
+    roadmap: sanitizeRoadmap(input?.roadmap),
+    obligations: sanitizeObligations(input?.obligations),
+    frias: sanitizeFrias(input?.frias),
+    transparency: sanitizeTransparencyNotices(input?.transparency),
+    roleAssignments: sanitizeRoleAssignments(input?.roleAssignments),
+    vendors,
+  };
+}
+
+export function sanitizeTranscript(input: any): TranscriptMessage[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((m: any) => m && (m.sender === 'user' || m.sender === 'bot') && typeof m.text === 'string')
+    .map((m: any) => {
+      const payload = m.sender === 'bot' ? sanitizePayload(m.payload) : undefined;
+      return { sender: m.sender, text: m.text, ...(typeof m.at === 'string' ? { at: m.at } : {}), ...(payload ? { payload } : {}) };
+    });
+}
+
+// Sources a client may claim for its own writes; the rest are set by the server.
+const CLIENT_SOURCES: ChangeSource[] = ['manual', 'import'];
+
+/** Appends a log entry for the change from `before` to `next.state`, if anything changed. */
+function withChange(
+  next: Assessment,
+  before: AgentState,
+  source: ChangeSource,
+  message?: string
+): Assessment {
+  const diff = diffState(before, next.state);
+  if (diff.length === 0) return next;
+  const change: StateChange = {
+    id: randomUUID(),
+    at: next.updatedAt,
+    source,
+    ...(message ? { message: message.slice(0, 500) } : {}),
+    version: next.version,
+    diff,
+  };
+  return { ...next, changes: [...(next.changes || []), change] };
+}
+
+async function write(a: Assessment): Promise<void> {
+  const file = fileFor(a.id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename so readers never see a half-written file.
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(a, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
+
+export async function getAssessment(id: string): Promise<Assessment> {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(id), 'utf8'));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') throw new AssessmentStoreError('Assessment not found', 404);
+    throw err;
+  }
+}
+
+export async function listAssessments(): Promise<AssessmentSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(storeDir());
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const out: AssessmentSummary[] = [];
+  for (const f of files) {
+    if (!f.endsWith('.json')) continue;
+    try {
+      out.push(assessmentSummary(JSON.parse(await fs.readFile(path.join(storeDir(), f), 'utf8'))));
+    } catch {
+      // Skip unreadable files instead of failing the whole listing.
+    }
+  }
+  return out.sort((x, y) => y.updatedAt.localeCompare(x.updatedAt));
+}
+
+function clientSource(source: unknown): ChangeSource {
+  return CLIENT_SOURCES.includes(source as ChangeSource) ? (source as ChangeSource) : 'manual';
+}
+
+export async function createAssessment(input: {
+  name?: string;
+  state?: unknown;
+  transcript?: unknown;
+  source?: unknown;
+  message?: unknown;
+}): Promise<Assessment> {
+  const now = new Date().toISOString();
+  const state = sanitizeState(input.state);
+  const initial: Assessment = {
+    id: randomUUID(),
+    name: (typeof input.name === 'string' && input.name.trim()) || state.org?.name || 'Untitled assessment',
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    state,
+    transcript: sanitizeTranscript(input.transcript),
+    changes: [],
+  };
+  const a = withChange(
+    initial,
+    sanitizeState(undefined),
+    clientSource(input.source),
+    typeof input.message === 'string' ? input.message : undefined
+  );
+  await write(a);
+  return a;
+}
+
+/**
+ * Copies an assessment's state, conversation and documents into a new one with its own
+ * change log, e.g. to start a similar client from an existing assessment.
+ */
+export async function duplicateAssessment(id: string, name?: unknown): Promise<Assessment> {
+  const source = await getAssessment(id);
+  const now = new Date().toISOString();
+  const copy: Assessment = {
+    id: randomUUID(),
+    name: (typeof name === 'string' && name.trim()) || `${source.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    state: source.state,
+    transcript: source.transcript,
+    ...(source.summary ? { summary: source.summary } : {}),
+    ...(source.documents ? { documents: source.documents } : {}),
+    changes: [],
+  };
+  const a = withChange(copy, sanitizeState(undefined), 'import', `Duplicated from "${source.name}"`);
+  await write(a);
+  return a;
+}
+
+export async function updateAssessment(
+  id: string,
+  patch: {
+    name?: string;
+    state?: unknown;
+    transcript?: unknown;
+    archived?: unknown;
+    version?: number;
+    source?: unknown;
+    message?: unknown;
+  }
+): Promise<Assessment> {
+  const current = await getAssessment(id);
+  if (typeof patch.version === 'number' && patch.version !== current.version) {
+    throw new AssessmentStoreError('Assessment was changed by someone else; reload and try again', 409);
+  }
+
+  let next: Assessment = {
+    ...current,
+    ...(typeof patch.name === 'string' && patch.name.trim() ? { name: patch.name.trim() } : {}),
+    ...(patch.state !== undefined ? { state: sanitizeState(patch.state) } : {}),
+    ...(patch.transcript !== undefined ? { transcript: sanitizeTranscript(patch.transcript) } : {}),
+    updatedAt: new Date().toISOString(),
+    version: current.version + 1,
+  };
+  if (patch.archived === true) next.archivedAt = current.archivedAt || next.updatedAt;
+  if (patch.archived === false) delete next.archivedAt;
+  // A summary that covers messages which are no longer in the transcript is stale, e.g.
+  // after the user started a new conversation.
+  if (next.summary && !keepsPrefix(current.transcript, next.transcript, next.summary.coversMessages)) delete next.summary;
+  next = withChange(
+    next,
+    current.state,
+    clientSource(patch.source),
+    typeof patch.message === 'string' ? patch.message : undefined
+  );
+  await write(next);
+  return next;
+}
+
+/**
+ * Appends a chat exchange and applies the model's state and roadmap updates, plus any
+ * refreshed conversation summary, in one write.
+ */
+export async function recordChatTurn(
+  id: string,
+  turn: {
+    input: string;
+    reply: string;
+    payload?: MessagePayload;
+    stateUpdates?: Partial<AgentState>;
+    roadmap?: RoadmapEntry[];
+    summary?: ConversationSummary;
+  }
+): Promise<Assessment> {
+  const current = await getAssessment(id);
+  const now = new Date();
+  const at = now.toISOString();
+  const merged = mergeAgentState(current.state, turn.stateUpdates);
+  const next: Assessment = withChange({
+    ...current,
+    // Model output goes through the same checks as a client save.
+    state: sanitizeState({ ...merged, roadmap: mergeRoadmap(merged.roadmap, turn.roadmap, now, taskDeadlines(merged)) }),
+    transcript: [
+      ...current.transcript,
+      { sender: 'user', text: turn.input, at },
+      { sender: 'bot', text: turn.reply, at, ...(turn.payload ? { payload: turn.payload } : {}) },
+    ],
+    ...(turn.summary ? { summary: sanitizeSummary(turn.summary) } : {}),
+    updatedAt: at,
+    version: current.version + 1,
+  }, current.state, 'model', turn.input);
+  await write(next);
+  return next;
+}
+
+/**
+ * Undoes one logged change, or restores the state as it was right after it. Both are
+ * themselves logged, so they can be undone in turn. Undo leaves fields that were changed
+ * again later untouched and returns them as `skipped`.
+ */
+export async function revertAssessment(
+  id: string,
+  request: { action: 'undo' | 'restore'; changeId: string; version?: number }
+): Promise<{ assessment: Assessment; skipped: FieldChange[] }> {
+  const current = await getAssessment(id);
+  if (typeof request.version === 'number' && request.version !== current.version) {
+    throw new AssessmentStoreError('Assessment was changed by someone else; reload and try again', 409);
+  }
+  const changes = current.changes || [];
+  const change = changes.find(c => c.id === request.changeId);
+  if (!change) throw new AssessmentStoreError('Change not found', 404);
+
+  let state: AgentState;
+  let skipped: FieldChange[] = [];
+  if (request.action === 'undo') ({ state, skipped } = revertChange(current.state, change));
+  else state = stateAt(current.state, changes, change.id);
+
+  const next = withChange(
+    { ...current, state: sanitizeState(state), updatedAt: new Date().toISOString(), version: current.version + 1 },
+    current.state,
+    request.action,
+    `${request.action === 'undo' ? 'Undo' : 'Restore to'} change from ${change.at}`
+  );
+  if (next.changes === current.changes) {
+    // Nothing to revert: every field was changed again since.
+    return { assessment: current, skipped };
+  }
+  await write(next);
+  return { assessment: next, skipped };
+}
+
+/**
+ * Extracts and stores an uploaded file. Documents are not part of the state, so this is
+ * not logged as a change, but it does bump the version like every other write.
+ */
+export async function addDocument(id: string, file: { name: string; data: Buffer }): Promise<Assessment> {
+  const current = await getAssessment(id);
+  const documents = current.documents || [];
+  if (documents.length >= MAX_DOCUMENTS) {
+    throw new AssessmentStoreError(`An assessment can hold at most ${MAX_DOCUMENTS} documents`, 409);
+  }
+  const now = new Date().toISOString();
+  const doc = buildDocument({ id: randomUUID(), name: file.name, data: file.data, uploadedAt: now });
+  const next: Assessment = { ...current, documents: [...documents, doc], updatedAt: now, version: current.version + 1 };
+  await write(next);
+  return next;
+}
+
+export async function removeDocument(id: string, documentId: string): Promise<Assessment> {
+  const current = await getAssessment(id);
+  const documents = current.documents || [];
+  if (!documents.some(d => d.id === documentId)) throw new AssessmentStoreError('Document not found', 404);
+  const next: Assessment = {
+    ...current,
+    documents: documents.filter(d => d.id !== documentId),
+    updatedAt: new Date().toISOString(),
+    version: current.version + 1,
+  };
+  await write(next);
+  return next;
+}
+
+export async function deleteAssessment(id: string): Promise<void> {
+  try {
+    await fs.unlink(fileFor(id));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') throw new AssessmentStoreError('Assessment not found', 404);
+    throw err;
+  }
+}
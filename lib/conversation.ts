@@ -0,0 +1,129 @@
+import type { TranscriptMessage } from './assessmentStore';
+import { estimateTokens, LlmProvider } from './llm';
+import { Logger, logger } from './logger';
+import { stripJsonBlocks } from './modelJson';
+
+/** Rolling summary of the turns that no longer fit in the model's context window. */
+export type ConversationSummary = {
+  text: string;
+  // Number of leading transcript messages folded into `text`.
+  coversMessages: number;
+  updatedAt: string;
+};
+
+export type HistoryMessage = { role: 'user' | 'assistant'; text: string };
+
+const DEFAULT_HISTORY_TOKENS = 3000;
+
+/** Token budget for history plus summary, from `CHAT_HISTORY_TOKEN_BUDGET`. */
+export function historyTokenBudget(): number {
+  const n = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_HISTORY_TOKENS;
+}
+
+export function sanitizeSummary(input: any): ConversationSummary | undefined {
+  if (!input || typeof input.text !== 'string' || !input.text.trim()) return undefined;
+  const covers = Number(input.coversMessages);
+  if (!Number.isInteger(covers) || covers < 0) return undefined;
+  return {
+    text: input.text,
+    coversMessages: covers,
+    updatedAt: typeof input.updatedAt === 'string' ? input.updatedAt : new Date().toISOString(),
+  };
+}
+
+const messageTokens = (m: TranscriptMessage) => estimateTokens(m.text) + 4;
+
+/**
+ * Splits the transcript into the recent messages sent verbatim and the older ones that
+ * must be folded into the summary. A quarter of the budget is reserved for the summary.
+ * Once the recent window overflows it is cut back to half its budget, so the summary is
+ * refreshed every few turns rather than on every turn.
+ */
+export function planContext(
+  transcript: TranscriptMessage[],
+  summary: ConversationSummary | undefined,
+  budget: number
+): { recent: TranscriptMessage[]; toSummarise: TranscriptMessage[] } {
+  // A summary covering more than the transcript holds is stale (the transcript was reset).
+  const start = summary && summary.coversMessages <= transcript.length ? summary.coversMessages : 0;
+  const pending = transcript.slice(start);
+  const recentBudget = budget - Math.floor(budget / 4);
+
+  const total = pending.reduce((n, m) => n + messageTokens(m), 0);
+  if (total <= recentBudget) return { recent: pending, toSummarise: [] };
+
+  let keepFrom = pending.length;
+  for (let used = 0; keepFrom > 0; keepFrom--) {
+    used += messageTokens(pending[keepFrom - 1]);
+    if (used > recentBudget / 2) break;
+  }
+  return { recent: pending.slice(keepFrom), toSummarise: pending.slice(0, keepFrom) };
+}
+
+const SUMMARY_PROMPT = `
+You maintain a running summary of a conversation between a user and an EU AI Act compliance assistant.
+Combine the previous summary (if any) with the new messages into one updated summary.
+Keep facts the user stated, decisions made, questions the assistant asked and whether they were answered, and anything still open.
+Refer to use cases by name. Do not add advice or facts that are not in the messages.
+Reply with the summary as plain prose only, no headings and no JSON.
+`;
+
+function formatMessages(messages: TranscriptMessage[]): string {
+  return messages.map(m => `${m.sender === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n\n');
+}
+
+/** Folds `messages` into the previous summary with one model call. */
+export async function summariseConversation(
+  provider: LlmProvider,
+  model: string,
+  previous: ConversationSummary | undefined,
+  messages: TranscriptMessage[],
+  maxTokens: number
+): Promise<string> {
+  const input = [
+    previous ? `<PREVIOUS SUMMARY>\n${previous.text}\n</PREVIOUS SUMMARY>` : '',
+    `<NEW MESSAGES>\n${formatMessages(messages)}\n</NEW MESSAGES>`,
+    `Keep the summary under ${Math.max(50, Math.floor(maxTokens * 0.75))} words.`,
+  ].filter(Boolean).join('\n\n');
+
+  const result = await provider.complete({ model, system: SUMMARY_PROMPT, input, temperature: 0 });
+  const text = stripJsonBlocks(result.text).trim();
+  const limit = maxTokens * 4;
+  return text.length > limit ? `${text.slice(0, limit).trimEnd()}…` : text;
+}
+
+/**
+ * Builds the history sent with a chat turn, refreshing the rolling summary when older
+ * turns fall out of the budget. If summarising fails the previous summary is kept and
+ * the overflow is simply left out; the next turn tries again.
+ */
+export async function prepareConversation(opts: {
+  transcript: TranscriptMessage[];
+  summary?: ConversationSummary;
+  provider: LlmProvider;
+  model: string;
+  budget?: number;
+  log?: Logger;
+}): Promise<{ history: HistoryMessage[]; summary?: ConversationSummary; summaryChanged: boolean }> {
+  const budget = opts.budget ?? historyTokenBudget();
+  if (budget === 0) return { history: [], summary: opts.summary, summaryChanged: false };
+
+  const previous = opts.summary && opts.summary.coversMessages <= opts.transcript.length ? opts.summary : undefined;
+  const { recent, toSummarise } = planContext(opts.transcript, previous, budget);
+  const history = recent.map(m => ({ role: m.sender === 'user' ? 'user' : 'assistant', text: m.text }) as HistoryMessage);
+  if (toSummarise.length === 0) return { history, summary: previous, summaryChanged: previous !== opts.summary };
+
+  try {
+    const text = await summariseConversation(opts.provider, opts.model, previous, toSummarise, Math.floor(budget / 4));
+    const summary: ConversationSummary = {
+      text,
+      coversMessages: opts.transcript.length - recent.length,
+      updatedAt: new Date().toISOString(),
+    };
+    return { history, summary, summaryChanged: true };
+  } catch (error: any) {
+    (opts.log || logger).warn('Conversation summary failed', { error: error?.message || String(error) });
+    return { history, summary: previous, summaryChanged: previous !== opts.summary };
+  }
+}
@@ -0,0 +1,229 @@
+import { extractDocxText } from './docx';
+import { estimateTokens } from './llm/tokens';
+import { extractPdfText } from './pdf';
+
+export const DOCUMENT_TYPES = ['pdf', 'docx', 'txt', 'md'] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENTS = 20;
+// Extracted text beyond this is dropped so a single file cannot bloat the assessment.
+const MAX_DOCUMENT_CHARS = 400_000;
+// Compressed PDF streams and DOCX entries may not expand past this, so a small upload cannot
+// decompress into gigabytes.
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+const CHUNK_CHARS = 1200;
+
+export type DocumentChunk = { index: number; text: string };
+
+/** An uploaded file's extracted text, stored with the assessment in chunks. */
+export type AssessmentDocument = {
+  id: string;
+  name: string;
+  type: DocumentType;
+  // Size of the uploaded file in bytes.
+  size: number;
+  uploadedAt: string;
+  // Set when the extracted text was cut at MAX_DOCUMENT_CHARS.
+  truncated?: boolean;
+  chunks: DocumentChunk[];
+};
+
+/** What clients see of a document: everything except the chunk text. */
+export type DocumentSummary = Omit<AssessmentDocument, 'chunks'> & { chunkCount: number; characters: number };
+
+export type RetrievedChunk = { documentId: string; name: string; index: number; text: string };
+
+export type DocumentCitation = { documentId: string; name: string; chunks: number[] };
+
+export class DocumentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+const EXTENSIONS: Record<string, DocumentType> = { pdf: 'pdf', docx: 'docx', txt: 'txt', md: 'md', markdown: 'md' };
+
+/** Detects the type from the file name, checking binary formats against their magic bytes. */
+export function detectDocumentType(name: string, data: Buffer): DocumentType {
+  const ext = name.toLowerCase().split('.').pop() || '';
+  const type = EXTENSIONS[ext];
+  if (!type) throw new DocumentError('Unsupported file type; upload PDF, DOCX, TXT or Markdown', 415);
+  if (type === 'pdf' && data.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    throw new DocumentError(`"${name}" is not a valid PDF`, 415);
+  }
+  if (type === 'docx' && data.subarray(0, 2).toString('latin1') !== 'PK') {
+    throw new DocumentError(`"${name}" is not a valid DOCX file`, 415);
+  }
+  return type;
+}
+
+/** Keeps the base name only and strips control characters. */
+export function cleanFileName(name: string | null | undefined): string {
+  // eslint-disable-next-line no-control-regex
+  const base = (name || '').split(/[\\/]/).pop()!.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return base.slice(0, 200) || 'document.txt';
+}
+
+function normaliseText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function extractDocumentText(data: Buffer, type: DocumentType, name: string): string {
+  let text: string;
+  try {
+    if (type === 'pdf') text = extractPdfText(data, MAX_INFLATED_BYTES);
+    else if (type === 'docx') text = extractDocxText(data, MAX_INFLATED_BYTES);
+    else text = data.toString('utf8').replace(/^\ufeff/, '');
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new DocumentError(`"${name}" expands to more than ${MAX_INFLATED_BYTES / 1024 / 1024} MB when decompressed`, 413);
+    }
+    throw new DocumentError(`Could not read "${name}": ${error?.message || 'unknown error'}`, 422);
+  }
+  text = normaliseText(text);
+  if (!/[a-z0-9\u00c0-\u024f]{2}/i.test(text)) {
+    throw new DocumentError(
+      `No text could be extracted from "${name}". Scanned or image-only files are not supported.`,
+      422
+    );
+  }
+  return text;
+}
+
+/**
+ * Splits text into chunks of at most CHUNK_CHARS, breaking between paragraphs where
+ * possible, then between lines and sentences, and only as a last resort mid-sentence.
+ */
+export function chunkText(text: string, maxChars = CHUNK_CHARS): DocumentChunk[] {
+  // Each piece remembers the separator that preceded it in the original text.
+  const pieces: Array<{ text: string; sep: string }> = [];
+  const split = (part: string, sep: string, levels: Array<[RegExp, string]>) => {
+    if (part.length <= maxChars || levels.length === 0) {
+      for (let i = 0; i < part.length; i += maxChars) pieces.push({ text: part.slice(i, i + maxChars), sep: i === 0 ? sep : '' });
+      return;
+    }
+    const [pattern, inner] = levels[0];
+    part.split(pattern).forEach((p, i) => split(p, i === 0 ? sep : inner, levels.slice(1)));
+  };
+  split(text, '', [[/\n{2,}/, '\n\n'], [/\n/, '\n'], [/(?<=[.!?]) +/, ' ']]);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const { text: piece, sep } of pieces.filter(p => p.text.trim())) {
+    if (current && current.length + sep.length + piece.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${sep}${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks.map((t, index) => ({ index, text: t }));
+}
+
+export function buildDocument(input: { id: string; name: string; data: Buffer; uploadedAt: string }): AssessmentDocument {
+  const type = detectDocumentType(input.name, input.data);
+  const text = extractDocumentText(input.data, type, input.name);
+  const truncated = text.length > MAX_DOCUMENT_CHARS;
+  return {
+    id: input.id,
+    name: input.name,
+    type,
+    size: input.data.length,
+    uploadedAt: input.uploadedAt,
+    ...(truncated ? { truncated } : {}),
+    chunks: chunkText(truncated ? text.slice(0, MAX_DOCUMENT_CHARS) : text),
+  };
+}
+
+export function documentSummary(doc: AssessmentDocument): DocumentSummary {
+  const { chunks, ...meta } = doc;
+  return { ...meta, chunkCount: chunks.length, characters: chunks.reduce((n, c) => n + c.text.length, 0) };
+}
+
+const DEFAULT_CONTEXT_TOKENS = 1500;
+
+/** Token budget for document excerpts in a chat turn, from `DOCUMENT_CONTEXT_TOKEN_BUDGET`. */
+export function documentContextBudget(): number {
+  const n = Number(process.env.DOCUMENT_CONTEXT_TOKEN_BUDGET);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_CONTEXT_TOKENS;
+}
+
+const STOPWORDS = new Set(
+  'the and for are but not you all any can had her was one our out has have this that with from they will would there their what about which when your into than them then these some more also such only other been were its who how use used using does'.split(' ')
+);
+
+// Latin letters including the accented ranges used by the supported EU languages.
+const terms = (s: string) =>
+  (s.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || []).filter(t => t.length > 2 && !STOPWORDS.has(t));
+
+/** BM25 relevance of each text to `query`; 0 means no query term occurs in it. */
+export function rankTexts(texts: string[], query: string): number[] {
+  const tokenised = texts.map(terms);
+  const avgLength = tokenised.reduce((n, t) => n + t.length, 0) / texts.length || 1;
+  const docFreq = new Map<string, number>();
+  for (const t of tokenised) for (const term of Array.from(new Set(t))) docFreq.set(term, (docFreq.get(term) || 0) + 1);
+
+  const queryTerms = Array.from(new Set(terms(query)));
+  const k1 = 1.2;
+  const b = 0.75;
+  return tokenised.map(tokens => {
+    const tf = new Map<string, number>();
+    for (const term of tokens) tf.set(term, (tf.get(term) || 0) + 1);
+    let score = 0;
+    for (const term of queryTerms) {
+      const f = tf.get(term);
+      if (!f) continue;
+      const df = docFreq.get(term)!;
+      const idf = Math.log(1 + (texts.length - df + 0.5) / (df + 0.5));
+      score += idf * ((f * (k1 + 1)) / (f + k1 * (1 - b + (b * tokens.length) / avgLength)));
+    }
+    return score;
+  });
+}
+
+/**
+ * Picks the chunks most relevant to `query` with BM25 scoring, up to `budget` estimated
+ * tokens. When nothing matches, for example "fill this in from the documents", the
+ * opening chunk of each document is used instead so the model still sees every file.
+ */
+export function retrieveChunks(documents: AssessmentDocument[], query: string, budget: number): RetrievedChunk[] {
+  if (budget <= 0) return [];
+  const all = documents.flatMap(d => d.chunks.map(c => ({ documentId: d.id, name: d.name, index: c.index, text: c.text })));
+  if (all.length === 0) return [];
+
+  const scores = rankTexts(all.map(c => c.text), query);
+  const scored = all.map((chunk, i) => ({ chunk, score: scores[i] }));
+
+  const matches = scored.filter(s => s.score > 0).sort((x, y) => y.score - x.score).map(s => s.chunk);
+  const candidates = matches.length > 0 ? matches : all.filter(c => c.index === 0);
+
+  const picked: RetrievedChunk[] = [];
+  let used = 0;
+  for (const chunk of candidates) {
+    const cost = estimateTokens(chunk.text) + estimateTokens(chunk.name) + 8;
+    if (used + cost > budget) continue;
+    picked.push(chunk);
+    used += cost;
+  }
+  return picked;
+}
+
+/** The documents, among those sent to the model, that the reply names. */
+export function citedDocuments(reply: string, chunks: RetrievedChunk[]): DocumentCitation[] {
+  const lower = reply.toLowerCase();
+  const out: DocumentCitation[] = [];
+  for (const chunk of chunks) {
+    if (!lower.includes(chunk.name.toLowerCase())) continue;
+    const existing = out.find(c => c.documentId === chunk.documentId);
+    if (existing) existing.chunks.push(chunk.index);
+    else out.push({ documentId: chunk.documentId, name: chunk.name, chunks: [chunk.index] });
+  }
+  return out.map(c => ({ ...c, chunks: c.chunks.sort((x, y) => x - y) }));
+}
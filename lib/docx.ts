@@ -0,0 +1,70 @@
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Reads one entry from a ZIP archive. Supports the stored and deflate methods, which is
+ * all Office files use. Returns undefined when the entry does not exist. Inflating past
+ * `maxBytes` throws zlib's `ERR_BUFFER_TOO_LARGE`.
+ */
+export function readZipEntry(zip: Buffer, name: string, maxBytes: number): Buffer | undefined {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment.
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let p = zip.readUInt32LE(eocd + 16);
+  for (let n = 0; n < entries && p + 46 <= zip.length; n++) {
+    if (zip.readUInt32LE(p) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const method = zip.readUInt16LE(p + 10);
+    const compressedSize = zip.readUInt32LE(p + 20);
+    const nameLength = zip.readUInt16LE(p + 28);
+    const extraLength = zip.readUInt16LE(p + 30);
+    const commentLength = zip.readUInt16LE(p + 32);
+    const localOffset = zip.readUInt32LE(p + 42);
+    const entryName = zip.toString('utf8', p + 46, p + 46 + nameLength);
+    p += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (zip.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) throw new Error('Corrupt ZIP local header');
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) return data;
+    if (method === 8) return inflateRawSync(data, { maxOutputLength: maxBytes });
+    throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+  return undefined;
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) => {
+    if (e[0] === '#') {
+      const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return XML_ENTITIES[e] ?? m;
+  });
+}
+
+/** Plain text of a Word document's body: one line per paragraph, tabs and breaks kept. */
+export function extractDocxText(docx: Buffer, maxInflatedBytes: number): string {
+  const xml = readZipEntry(docx, 'word/document.xml', maxInflatedBytes);
+  if (!xml) throw new Error('Not a Word document (word/document.xml missing)');
+  const text = xml
+    .toString('utf8')
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text);
+}
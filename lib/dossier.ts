@@ -0,0 +1,334 @@
+import type { AgentState } from './agentState';
+import type { Assessment } from './assessmentStore';
+import { EvidenceItem, OBLIGATION_CATALOGUE, ObligationStatus, trackedObligations } from './obligations';
+import type { PdfBlock } from './pdf';
+import { classifyUseCase, RiskLevel } from './riskClassifier';
+import type { TrackedTask } from './roadmap';
+import { ARTICLE_25_TRIGGERS, determineRoles, organisationRoles, roleAssignmentFor, rolesForUseCase } from './roles';
+import { missingDocuments, reviewDue, vendorFor } from './vendors';
+
+export type DossierObligation = {
+  article: string;
+  title: string;
+  condition?: string;
+  status: ObligationStatus;
+  owner?: string;
+  evidence: EvidenceItem[];
+};
+
+export type DossierUseCase = {
+  id: string;
+  name: string;
+  description?: string;
+  process?: string;
+  owner?: string;
+  model?: string;
+  // Set when the model is linked to a registry entry.
+  supplier?: { provider?: string; gpai: boolean; systemicRisk: boolean; missingDocuments: string[]; reviewDue: boolean };
+  data: string[];
+  subjects: string[];
+  jurisdictions: string[];
+  inScope?: boolean;
+  roles: string[];
+  // Art. 25(1) points that make the organisation the provider of this system.
+  article25: string[];
+  risk: RiskLevel;
+  riskRationale?: string;
+  ruleBased: { level: RiskLevel; article?: string; rule?: string; conflict: boolean };
+  obligations: DossierObligation[];
+  tasks: TrackedTask[];
+};
+
+export type Dossier = {
+  title: string;
+  generatedAt: string;
+  org: NonNullable<AgentState['org']>;
+  roles: string[];
+  useCases: DossierUseCase[];
+  openQuestions: string[];
+  catalogueVersion: string;
+};
+
+function openQuestionsFor(u: DossierUseCase): string[] {
+  const q: string[] = [];
+  if (u.risk === 'unknown') q.push(`${u.name}: risk level has not been determined.`);
+  if (u.ruleBased.conflict) {
+    q.push(`${u.name}: assistant label "${u.risk}" conflicts with rule-based "${u.ruleBased.level}"${u.ruleBased.article ? ` (${u.ruleBased.article})` : ''}.`);
+  }
+  if (!u.owner) q.push(`${u.name}: no internal owner assigned.`);
+  if (u.data.length === 0) q.push(`${u.name}: data categories are not documented.`);
+  if (u.subjects.length === 0) q.push(`${u.name}: affected persons are not documented.`);
+  if (!u.model) q.push(`${u.name}: underlying model or vendor is not recorded.`);
+  if (u.supplier?.missingDocuments.length) {
+    q.push(`${u.name}: supplier documentation not yet received: ${u.supplier.missingDocuments.join(', ')}.`);
+  }
+  if (u.supplier?.reviewDue) q.push(`${u.name}: supplier review is due.`);
+  return q;
+}
+
+export function buildDossier(assessment: Assessment, now: Date = new Date()): Dossier {
+  const state = assessment.state;
+  const roles = organisationRoles(state);
+  const roadmap = state.roadmap || [];
+
+  const useCases: DossierUseCase[] = (state.useCases || []).map(u => {
+    const cls = classifyUseCase(u);
+    const entry = roadmap.find(e => e.useCaseId === u.id);
+    const risk: RiskLevel = u.risk || 'unknown';
+    const assignment = roleAssignmentFor(state, u.id);
+    const triggers = assignment ? determineRoles(assignment.answers, u).article25 : [];
+    const vendor = vendorFor(state, u);
+    return {
+      id: u.id,
+      name: u.name || 'Untitled use case',
+      description: u.description,
+      process: u.process,
+      owner: u.owner,
+      model: vendor?.name || u.model,
+      supplier: vendor && {
+        provider: vendor.provider,
+        gpai: vendor.gpai,
+        systemicRisk: vendor.systemicRisk,
+        missingDocuments: missingDocuments(vendor).map(d => `${d.title} (${d.article})`),
+        reviewDue: reviewDue(vendor, now),
+      },
+      data: u.data || [],
+      subjects: u.subjects || [],
+      jurisdictions: u.jurisdictions || [],
+      inScope: u.inScope,
+      roles: rolesForUseCase(state, u),
+      article25: ARTICLE_25_TRIGGERS.filter(t => triggers.includes(t.id)).map(t => t.article),
+      risk,
+      riskRationale: entry?.risk?.rationale,
+      ruleBased: { level: cls.level, article: cls.article, rule: cls.rule, conflict: cls.conflict },
+      obligations: trackedObligations(state, u).map(({ obligation, record }) => ({
+        article: obligation.article,
+        title: obligation.title,
+        condition: obligation.condition,
+        status: record.status,
+        owner: record.owner,
+        evidence: record.evidence,
+      })),
+      tasks: entry?.tasks || [],
+    };
+  });
+
+  const openQuestions = [
+    ...(!state.org?.name ? ['Organisation name is missing.'] : []),
+    ...(roles.length === 0 ? ['The organisation role (provider, deployer, ...) has not been determined.'] : []),
+    ...(useCases.length === 0 ? ['No AI use cases have been recorded.'] : []),
+    ...useCases.flatMap(openQuestionsFor),
+  ];
+
+  return {
+    title: `EU AI Act compliance dossier – ${state.org?.name || assessment.name}`,
+    generatedAt: now.toISOString(),
+    org: state.org || {},
+    roles,
+    useCases,
+    openQuestions,
+    catalogueVersion: OBLIGATION_CATALOGUE.version,
+  };
+}
+
+const dash = (v?: string) => (v && v.trim() ? v : '–');
+const list = (v: string[]) => (v.length ? v.join(', ') : '–');
+const modelText = (u: DossierUseCase) => {
+  const s = u.supplier;
+  if (!s) return dash(u.model);
+  const flags = s.systemicRisk ? 'GPAI with systemic risk' : s.gpai ? 'GPAI' : '';
+  return [u.model, s.provider && `by ${s.provider}`, flags && `(${flags})`].filter(Boolean).join(' ');
+};
+const rolesText = (u: DossierUseCase) =>
+  `${list(u.roles)}${u.article25.length ? ` (provider under ${u.article25.join(', ')})` : ''}`;
+
+const cell = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const obligationTitle = (o: DossierObligation) => (o.condition ? `${o.title} (${o.condition.replace(/\.$/, '')})` : o.title);
+
+const evidenceText = (o: DossierObligation) =>
+  o.evidence.map(e => [e.note, e.url].filter(Boolean).join(' ')).join('; ') || '–';
+
+export function dossierToMarkdown(d: Dossier): string {
+  const lines: string[] = [];
+  lines.push(`# ${d.title}`, '', `Generated ${d.generatedAt.slice(0, 10)} · obligations catalogue v${d.catalogueVersion}`, '');
+
+  lines.push('## Organisation profile', '');
+  lines.push(`- **Name:** ${dash(d.org.name)}`);
+  lines.push(`- **Country:** ${dash(d.org.country)}`);
+  lines.push(`- **Industry:** ${dash(d.org.industry)}`);
+  lines.push(`- **Size:** ${dash(d.org.size)}`);
+  lines.push(`- **Roles:** ${list(d.roles)}`, '');
+
+  lines.push('## AI use-case inventory', '');
+  if (d.useCases.length === 0) lines.push('No use cases recorded.', '');
+  else {
+    lines.push('| Use case | Risk | Rule-based check | Owner |', '| --- | --- | --- | --- |');
+    for (const u of d.useCases) {
+      const check = `${u.ruleBased.level}${u.ruleBased.article ? ` (${u.ruleBased.article})` : ''}${u.ruleBased.conflict ? ' ⚠ conflict' : ''}`;
+      lines.push(`| ${cell(u.name)} | ${u.risk} | ${check} | ${cell(dash(u.owner))} |`);
+    }
+    lines.push('');
+  }
+
+  for (const u of d.useCases) {
+    lines.push(`### ${u.name}`, '');
+    if (u.description) lines.push(u.description, '');
+    lines.push(`- **Process:** ${dash(u.process)}`);
+    lines.push(`- **Model / vendor:** ${modelText(u)}`);
+    lines.push(`- **Data:** ${list(u.data)}`);
+    lines.push(`- **Affected persons:** ${list(u.subjects)}`);
+    lines.push(`- **Jurisdictions:** ${list(u.jurisdictions)}`);
+    lines.push(`- **Roles:** ${rolesText(u)}`);
+    lines.push(`- **Risk level:** ${u.risk}${u.riskRationale ? ` – ${u.riskRationale}` : ''}`);
+    lines.push(`- **Rule-based classification:** ${u.ruleBased.level}${u.ruleBased.article ? ` – ${u.ruleBased.article}: ${u.ruleBased.rule}` : ''}`, '');
+
+    lines.push('**Applicable obligations**', '');
+    if (u.obligations.length === 0) lines.push('None identified for the recorded roles and risk level.', '');
+    else {
+      lines.push('| Article | Obligation | Status | Responsible | Evidence |', '| --- | --- | --- | --- | --- |');
+      for (const o of u.obligations) {
+        lines.push(`| ${cell(o.article)} | ${cell(obligationTitle(o))} | ${o.status} | ${cell(dash(o.owner))} | ${cell(evidenceText(o))} |`);
+      }
+      lines.push('');
+    }
+
+    if (u.tasks.length > 0) {
+      lines.push('**Task plan**', '', '| Task | Owner | Due | Status | Acceptance |', '| --- | --- | --- | --- | --- |');
+      for (const t of u.tasks) {
+        lines.push(`| ${cell(t.title)} | ${cell(dash(t.owner))} | ${dash(t.dueDate)} | ${t.status} | ${cell(dash(t.acceptance))} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  lines.push('## Open questions', '');
+  if (d.openQuestions.length === 0) lines.push('None.');
+  for (const q of d.openQuestions) lines.push(`- ${q}`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function dossierToHtml(d: Dossier): string {
+  const row = (cells: string[]) => `<tr>${cells.map(c => `<td>${esc(c)}</td>`).join('')}</tr>`;
+  const head = (cells: string[]) => `<tr>${cells.map(c => `<th>${esc(c)}</th>`).join('')}</tr>`;
+
+  const useCaseSections = d.useCases.map(u => `
+<section class="use-case">
+  <h3>${esc(u.name)}</h3>
+  ${u.description ? `<p>${esc(u.description)}</p>` : ''}
+  <table>
+    ${row(['Process', dash(u.process)])}
+    ${row(['Model / vendor', modelText(u)])}
+    ${row(['Data', list(u.data)])}
+    ${row(['Affected persons', list(u.subjects)])}
+    ${row(['Jurisdictions', list(u.jurisdictions)])}
+    ${row(['Roles', rolesText(u)])}
+    ${row(['Risk level', `${u.risk}${u.riskRationale ? ` – ${u.riskRationale}` : ''}`])}
+    ${row(['Rule-based classification', `${u.ruleBased.level}${u.ruleBased.article ? ` – ${u.ruleBased.article}: ${u.ruleBased.rule}` : ''}`])}
+  </table>
+  ${u.ruleBased.conflict ? `<p class="warn">Risk conflict: assistant label "${esc(u.risk)}" differs from rule-based "${esc(u.ruleBased.level)}".</p>` : ''}
+  <h4>Applicable obligations</h4>
+  ${u.obligations.length ? `<table>
+    ${head(['Article', 'Obligation', 'Status', 'Responsible', 'Evidence'])}
+    ${u.obligations.map(o => row([o.article, obligationTitle(o), o.status, dash(o.owner), evidenceText(o)])).join('\n    ')}
+  </table>` : '<p>None identified for the recorded roles and risk level.</p>'}
+  ${u.tasks.length ? `<h4>Task plan</h4>
+  <table>
+    ${head(['Task', 'Owner', 'Due', 'Status', 'Acceptance'])}
+    ${u.tasks.map(t => row([t.title, dash(t.owner), dash(t.dueDate), t.status, dash(t.acceptance)])).join('\n    ')}
+  </table>` : ''}
+</section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(d.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; font-size: 14px; }
+  h1 { font-size: 22px; } h2 { font-size: 18px; margin-top: 2rem; border-bottom: 1px solid #ddd; } h3 { font-size: 16px; } h4 { font-size: 14px; }
+  table { border-collapse: collapse; width: 100%; margin: .5rem 0; }
+  th, td { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  .meta { color: #666; } .warn { color: #92400e; background: #fffbeb; padding: 4px 6px; }
+  section.use-case { page-break-inside: avoid; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>${esc(d.title)}</h1>
+<p class="meta">Generated ${esc(d.generatedAt.slice(0, 10))} · obligations catalogue v${esc(d.catalogueVersion)}</p>
+
+<h2>Organisation profile</h2>
+<table>
+  ${row(['Name', dash(d.org.name)])}
+  ${row(['Country', dash(d.org.country)])}
+  ${row(['Industry', dash(d.org.industry)])}
+  ${row(['Size', dash(d.org.size)])}
+  ${row(['Roles', list(d.roles)])}
+</table>
+
+<h2>AI use-case inventory</h2>
+${d.useCases.length ? `<table>
+  ${head(['Use case', 'Risk', 'Rule-based check', 'Owner'])}
+  ${d.useCases.map(u => row([u.name, u.risk, `${u.ruleBased.level}${u.ruleBased.article ? ` (${u.ruleBased.article})` : ''}${u.ruleBased.conflict ? ' – conflict' : ''}`, dash(u.owner)])).join('\n  ')}
+</table>` : '<p>No use cases recorded.</p>'}
+${useCaseSections}
+
+<h2>Open questions</h2>
+${d.openQuestions.length ? `<ul>${d.openQuestions.map(q => `<li>${esc(q)}</li>`).join('')}</ul>` : '<p>None.</p>'}
+</body>
+</html>
+`;
+}
+
+export function dossierToPdfBlocks(d: Dossier): PdfBlock[] {
+  const b: PdfBlock[] = [];
+  const push = (style: PdfBlock['style'], text: string) => b.push({ style, text });
+
+  push('title', d.title);
+  push('meta', `Generated ${d.generatedAt.slice(0, 10)} · obligations catalogue v${d.catalogueVersion}`);
+
+  push('heading', 'Organisation profile');
+  push('body', `Name: ${dash(d.org.name)}`);
+  push('body', `Country: ${dash(d.org.country)}`);
+  push('body', `Industry: ${dash(d.org.industry)}`);
+  push('body', `Size: ${dash(d.org.size)}`);
+  push('body', `Roles: ${list(d.roles)}`);
+
+  push('heading', 'AI use-case inventory');
+  if (d.useCases.length === 0) push('body', 'No use cases recorded.');
+  for (const u of d.useCases) {
+    push('subheading', u.name);
+    if (u.description) push('body', u.description);
+    push('body', `Process: ${dash(u.process)}`);
+    push('body', `Model / vendor: ${modelText(u)}`);
+    push('body', `Data: ${list(u.data)}`);
+    push('body', `Affected persons: ${list(u.subjects)}`);
+    push('body', `Jurisdictions: ${list(u.jurisdictions)}`);
+    push('body', `Roles: ${rolesText(u)}`);
+    push('body', `Risk level: ${u.risk}${u.riskRationale ? ` – ${u.riskRationale}` : ''}`);
+    push('body', `Rule-based classification: ${u.ruleBased.level}${u.ruleBased.article ? ` – ${u.ruleBased.article}: ${u.ruleBased.rule}` : ''}${u.ruleBased.conflict ? ' (CONFLICT)' : ''}`);
+    push('body', 'Applicable obligations:');
+    if (u.obligations.length === 0) push('bullet', 'None identified for the recorded roles and risk level.');
+    for (const o of u.obligations) {
+      const evidence = o.evidence.length ? `. Evidence: ${evidenceText(o)}` : '';
+      push('bullet', `${o.article}: ${obligationTitle(o)} – ${o.status}, responsible ${dash(o.owner)}${evidence}`);
+    }
+    if (u.tasks.length > 0) {
+      push('body', 'Task plan:');
+      for (const t of u.tasks) {
+        push('bullet', `${t.title} – owner ${dash(t.owner)}, due ${dash(t.dueDate)}, ${t.status}${t.acceptance ? `. Acceptance: ${t.acceptance}` : ''}`);
+      }
+    }
+  }
+
+  push('heading', 'Open questions');
+  if (d.openQuestions.length === 0) push('body', 'None.');
+  for (const q of d.openQuestions) push('bullet', q);
+  return b;
+}
@@ -0,0 +1,211 @@
+import type { AgentState } from './agentState';
+import type { Assessment } from './assessmentStore';
+import { effectiveRisk } from './obligations';
+import type { PdfBlock } from './pdf';
+
+/** The elements a fundamental rights impact assessment must describe, per Art. 27(1)(a)-(f). */
+export const FRIA_SECTIONS = [
+  {
+    id: 'process',
+    article: 'Art. 27(1)(a)',
+    title: 'Deployment process',
+    guidance: "The deployer's processes in which the high-risk AI system is used, in line with its intended purpose.",
+  },
+  {
+    id: 'period',
+    article: 'Art. 27(1)(b)',
+    title: 'Period and frequency of use',
+    guidance: 'The period of time within which, and the frequency with which, the system is intended to be used.',
+  },
+  {
+    id: 'affectedGroups',
+    article: 'Art. 27(1)(c)',
+    title: 'Affected persons and groups',
+    guidance: 'The categories of natural persons and groups likely to be affected by its use in this context.',
+  },
+  {
+    id: 'risks',
+    article: 'Art. 27(1)(d)',
+    title: 'Specific risks of harm',
+    guidance: "The specific risks of harm likely to affect those persons or groups, taking into account the provider's instructions for use (Art. 13).",
+  },
+  {
+    id: 'oversight',
+    article: 'Art. 27(1)(e)',
+    title: 'Human oversight measures',
+    guidance: 'The human oversight measures in place, according to the instructions for use.',
+  },
+  {
+    id: 'complaints',
+    article: 'Art. 27(1)(f)',
+    title: 'Mitigation, governance and complaints',
+    guidance: 'The measures to take if the risks materialise, including internal governance arrangements and complaint mechanisms.',
+  },
+] as const;
+
+export type FriaSectionId = (typeof FRIA_SECTIONS)[number]['id'];
+export type FriaSection = (typeof FRIA_SECTIONS)[number];
+
+export const FRIA_STATUSES = ['draft', 'complete'] as const;
+export type FriaStatus = (typeof FRIA_STATUSES)[number];
+
+/** A use case's FRIA answers, one free-text answer per section. */
+export type FriaRecord = {
+  useCaseId: string;
+  answers: Partial<Record<FriaSectionId, string>>;
+  status: FriaStatus;
+  updatedAt?: string;
+  completedAt?: string;
+};
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+const isSectionId = (v: unknown): v is FriaSectionId => FRIA_SECTIONS.some(s => s.id === v);
+
+export const friaSection = (id: FriaSectionId): FriaSection => FRIA_SECTIONS.find(s => s.id === id)!;
+
+/** Art. 27 applies to deployers of high-risk systems; the risk follows the obligations' effective level. */
+export function friaRequired(u: UseCase, roles: string[]): boolean {
+  return u.inScope !== false && effectiveRisk(u) === 'high' && roles.some(r => r.toLowerCase() === 'deployer');
+}
+
+/**
+ * The stored record, or a new draft. Sections never answered are pre-filled from what the
+ * inventory already knows; an answer the user cleared stays empty.
+ */
+export function friaFor(state: AgentState, u: UseCase): FriaRecord {
+  const existing = (state.frias || []).find(f => f.useCaseId === u.id);
+  const process = [u.process, u.description].filter(Boolean).join(': ');
+  const prefill: FriaRecord['answers'] = {
+    ...(process ? { process } : {}),
+    ...(u.subjects?.length ? { affectedGroups: u.subjects.join(', ') } : {}),
+  };
+  if (!existing) return { useCaseId: u.id, answers: prefill, status: 'draft' };
+  return { ...existing, answers: { ...prefill, ...existing.answers } };
+}
+
+export const answeredSections = (record: FriaRecord) => FRIA_SECTIONS.filter(s => record.answers[s.id]?.trim()).length;
+
+/** Coerces client-supplied FRIA records, dropping anything invalid. */
+export function sanitizeFrias(input: any): FriaRecord[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((f: any) => f && typeof f.useCaseId === 'string' && f.useCaseId)
+    .map((f: any) => ({
+      useCaseId: f.useCaseId,
+      answers: Object.fromEntries(
+        Object.entries(f.answers && typeof f.answers === 'object' ? f.answers : {}).filter(
+          ([k, v]) => isSectionId(k) && typeof v === 'string'
+        )
+      ) as FriaRecord['answers'],
+      status: (FRIA_STATUSES as readonly string[]).includes(f.status) ? f.status : 'draft',
+      updatedAt: typeof f.updatedAt === 'string' ? f.updatedAt : undefined,
+      completedAt: typeof f.completedAt === 'string' ? f.completedAt : undefined,
+    }));
+}
+
+export type FriaDocument = {
+  title: string;
+  generatedAt: string;
+  deployer: string;
+  useCase: { name: string; description?: string; model?: string; owner?: string };
+  status: FriaStatus;
+  completedAt?: string;
+  sections: Array<FriaSection & { answer?: string }>;
+};
+
+export function buildFriaDocument(assessment: Assessment, useCaseId: string, now: Date = new Date()): FriaDocument | undefined {
+  const state = assessment.state;
+  const u = (state.useCases || []).find(x => x.id === useCaseId);
+  if (!u) return undefined;
+  const record = friaFor(state, u);
+  const name = u.name || 'Untitled use case';
+  return {
+    title: `Fundamental rights impact assessment – ${name}`,
+    generatedAt: now.toISOString(),
+    deployer: state.org?.name || assessment.name,
+    useCase: { name, description: u.description, model: u.model, owner: u.owner },
+    status: record.status,
+    completedAt: record.completedAt,
+    sections: FRIA_SECTIONS.map(s => ({ ...s, answer: record.answers[s.id]?.trim() || undefined })),
+  };
+}
+
+const NOT_ANSWERED = 'Not answered yet.';
+
+const metaLine = (d: FriaDocument) =>
+  `Deployer: ${d.deployer} · ${d.status === 'complete' ? `completed ${d.completedAt?.slice(0, 10) || ''}`.trim() : 'draft'} · generated ${d.generatedAt.slice(0, 10)}`;
+
+export function friaToMarkdown(d: FriaDocument): string {
+  const lines = [`# ${d.title}`, '', metaLine(d), ''];
+  lines.push('## AI system', '', `- **Use case:** ${d.useCase.name}`);
+  if (d.useCase.description) lines.push(`- **Description:** ${d.useCase.description}`);
+  if (d.useCase.model) lines.push(`- **Model / vendor:** ${d.useCase.model}`);
+  if (d.useCase.owner) lines.push(`- **Owner:** ${d.useCase.owner}`);
+  lines.push('');
+  for (const s of d.sections) {
+    lines.push(`## ${s.title} (${s.article})`, '', `_${s.guidance}_`, '', s.answer || NOT_ANSWERED, '');
+  }
+  lines.push('Under Art. 27(3), notify the market surveillance authority of the results once the assessment is complete.', '');
+  return lines.join('\n');
+}
+
+const esc = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (s: string) => s.split(/\n{2,}/).map(p => `<p>${esc(p).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+export function friaToHtml(d: FriaDocument): string {
+  const system = [
+    ['Use case', d.useCase.name],
+    ['Description', d.useCase.description],
+    ['Model / vendor', d.useCase.model],
+    ['Owner', d.useCase.owner],
+  ].filter((r): r is string[] => !!r[1]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(d.title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; font-size: 14px; }
+  h1 { font-size: 22px; } h2 { font-size: 16px; margin-top: 1.5rem; border-bottom: 1px solid #ddd; }
+  table { border-collapse: collapse; width: 100%; margin: .5rem 0; }
+  th, td { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  .meta, .guidance { color: #666; } .missing { color: #92400e; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${esc(d.title)}</h1>
+<p class="meta">${esc(metaLine(d))}</p>
+<h2>AI system</h2>
+<table>
+  ${system.map(([k, v]) => `<tr><th>${esc(k)}</th><td>${esc(v)}</td></tr>`).join('\n  ')}
+</table>
+${d.sections.map(s => `<h2>${esc(s.title)} <span class="meta">(${esc(s.article)})</span></h2>
+<p class="guidance">${esc(s.guidance)}</p>
+${s.answer ? paragraphs(s.answer) : `<p class="missing">${NOT_ANSWERED}</p>`}`).join('\n')}
+<p class="meta">Under Art. 27(3), notify the market surveillance authority of the results once the assessment is complete.</p>
+</body>
+</html>
+`;
+}
+
+export function friaToPdfBlocks(d: FriaDocument): PdfBlock[] {
+  const b: PdfBlock[] = [
+    { style: 'title', text: d.title },
+    { style: 'meta', text: metaLine(d) },
+    { style: 'heading', text: 'AI system' },
+    { style: 'body', text: `Use case: ${d.useCase.name}` },
+  ];
+  if (d.useCase.description) b.push({ style: 'body', text: `Description: ${d.useCase.description}` });
+  if (d.useCase.model) b.push({ style: 'body', text: `Model / vendor: ${d.useCase.model}` });
+  if (d.useCase.owner) b.push({ style: 'body', text: `Owner: ${d.useCase.owner}` });
+  for (const s of d.sections) {
+    b.push({ style: 'heading', text: `${s.title} (${s.article})` }, { style: 'meta', text: s.guidance });
+    for (const p of (s.answer || NOT_ANSWERED).split(/\n+/)) b.push({ style: 'body', text: p });
+  }
+  b.push({ style: 'meta', text: 'Under Art. 27(3), notify the market surveillance authority of the results once the assessment is complete.' });
+  return b;
+}
@@ -0,0 +1,61 @@
+import { Assessment, AssessmentStoreError } from './assessmentStore';
+import { documentContextBudget, retrieveChunks } from './documents';
+import { friaFor, FriaRecord, friaSection, FriaSectionId } from './fria';
+import { createPseudonymiser } from './guardrails';
+import { LOCALES, Locale } from './i18n/locales';
+import type { LlmProvider } from './llm';
+import { stripJsonBlocks } from './modelJson';
+
+const DRAFT_PROMPT = `
+You help a deployer of a high-risk AI system write its fundamental rights impact assessment under Article 27 of the EU AI Act.
+Draft the answer to one section of the assessment for the use case in the envelope.
+Base the draft on the use case, the organisation, the answers already given and any document excerpts. Do not invent facts about the organisation; where something is unknown, write a clearly marked placeholder such as [confirm: ...] for the user to fill in.
+Write concise, factual prose or short bullet points that the user can paste into the assessment. No headings, no preamble and no JSON.
+`;
+
+// Drafts are pasted into a single answer field; anything longer is cut.
+const MAX_DRAFT_CHARS = 4000;
+
+/**
+ * Drafts one FRIA section with a single model call. `answers` are the user's current,
+ * possibly unsaved, answers; they override what is stored for the use case.
+ */
+export async function draftFriaSection(opts: {
+  provider: LlmProvider;
+  model: string;
+  assessment: Assessment;
+  useCaseId: string;
+  section: FriaSectionId;
+  answers?: FriaRecord['answers'];
+  locale: Locale;
+}): Promise<string> {
+  const { assessment, section } = opts;
+  const state = assessment.state;
+  const useCase = (state.useCases || []).find(u => u.id === opts.useCaseId);
+  if (!useCase) throw new AssessmentStoreError(`Unknown use case "${opts.useCaseId}"`, 404);
+
+  const spec = friaSection(section);
+  const answers = { ...friaFor(state, useCase).answers, ...(opts.answers || {}) };
+  const query = [spec.title, spec.guidance, useCase.name, useCase.description].filter(Boolean).join('\n');
+  const excerpts = retrieveChunks(assessment.documents || [], query, documentContextBudget());
+
+  const pii = createPseudonymiser();
+  const input = JSON.stringify(pii.redactDeep({
+    message: `Draft the "${spec.title}" section (${spec.article}) of the fundamental rights impact assessment: ${spec.guidance}`,
+    language: LOCALES[opts.locale].englishName,
+    org: state.org,
+    useCase,
+    answers: Object.fromEntries(Object.entries(answers).filter(([k, v]) => k !== section && v?.trim())),
+    currentDraft: answers[section]?.trim() || undefined,
+    ...(excerpts.length > 0 ? { documents: excerpts.map(c => ({ source: c.name, excerpt: c.index + 1, text: c.text })) } : {}),
+  }));
+
+  const result = await opts.provider.complete({
+    model: opts.model,
+    system: `${DRAFT_PROMPT}\nWrite in ${LOCALES[opts.locale].englishName}.`,
+    input,
+    temperature: 0.2,
+  });
+  const text = pii.restore(stripJsonBlocks(result.text)).trim();
+  return text.length > MAX_DRAFT_CHARS ? `${text.slice(0, MAX_DRAFT_CHARS).trimEnd()}…` : text;
+}
@@ -0,0 +1,52 @@
+import type { NextApiResponse } from 'next';
+import { GuardrailError } from './types';
+
+export * from './injection';
+export * from './pii';
+export * from './rateLimit';
+export * from './types';
+
+const DEFAULT_MAX_INPUT_CHARS = 8_000;
+const DEFAULT_MAX_STATE_BYTES = 256_000;
+
+const envLimit = (name: string, fallback: number) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+};
+
+/** Size limits for chat requests, from `MAX_INPUT_CHARS` and `MAX_STATE_BYTES`. */
+export function requestLimits() {
+  return {
+    maxInputChars: envLimit('MAX_INPUT_CHARS', DEFAULT_MAX_INPUT_CHARS),
+    maxStateBytes: envLimit('MAX_STATE_BYTES', DEFAULT_MAX_STATE_BYTES),
+  };
+}
+
+/**
+ * Rejects oversized chat requests with a 413 before anything reaches the model. The state
+ * limit covers the client-supplied state, transcript and summary together.
+ */
+export function checkRequestSize(input: string, clientContext: unknown): void {
+  const { maxInputChars, maxStateBytes } = requestLimits();
+  if (input.length > maxInputChars) {
+    throw new GuardrailError(
+      `Message is too long: ${input.length} characters, the limit is ${maxInputChars}`,
+      413,
+      'input_too_large'
+    );
+  }
+  const bytes = clientContext === undefined ? 0 : Buffer.byteLength(JSON.stringify(clientContext));
+  if (bytes > maxStateBytes) {
+    throw new GuardrailError(`Assessment state is too large: ${bytes} bytes, the limit is ${maxStateBytes}`, 413, 'state_too_large');
+  }
+}
+
+/** Sends a guardrail rejection as `{ error, code }`, with `Retry-After` for rate limits. */
+export function sendGuardrailError(res: NextApiResponse, error: GuardrailError) {
+  if (error.retryAfter) res.setHeader('Retry-After', String(error.retryAfter));
+  return res.status(error.status).json({
+    error: error.message,
+    code: error.code,
+    ...(error.retryAfter ? { retryAfter: error.retryAfter } : {}),
+  });
+}
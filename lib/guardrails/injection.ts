@@ -0,0 +1,47 @@
+import { InjectionFinding } from './types';
+
+export const INJECTION_MODES = ['flag', 'block', 'off'] as const;
+export type InjectionMode = (typeof INJECTION_MODES)[number];
+
+/** How likely injections are handled, from `PROMPT_INJECTION_MODE` (default `flag`). */
+export function injectionMode(): InjectionMode {
+  const mode = (process.env.PROMPT_INJECTION_MODE || 'flag').trim();
+  if (!(INJECTION_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown PROMPT_INJECTION_MODE "${mode}"; expected one of ${INJECTION_MODES.join(', ')}`);
+  }
+  return mode as InjectionMode;
+}
+
+// Phrases typical of attempts to override a system prompt. They are heuristics: a hit is a
+// reason to treat the text as data and tell the user, not proof of an attack.
+const PATTERNS: Array<{ id: string; re: RegExp }> = [
+  {
+    id: 'ignore-instructions',
+    re: /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|system|your)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|guidelines)\b/i,
+  },
+  {
+    id: 'ignore-instructions-translated',
+    re: /\b(ignorier\w*|vergiss)\b[^.\n]{0,30}\banweisungen\b|\bignore[rz]?\b[^.\n]{0,30}\binstructions pr(e|\u00e9)c(e|\u00e9)dentes\b|\bignoruj\b[^.\n]{0,30}\binstrukcj\w*|\bignor\u0113\w*[^.\n]{0,30}\bnor\u0101d\u012bjum\w*/i,
+  },
+  { id: 'reveal-prompt', re: /\b(reveal|show|print|repeat|output|leak)\b[^.\n]{0,30}\b(system prompt|hidden instructions|your (instructions|prompt))\b/i },
+  { id: 'role-override', re: /\b(you are now|from now on,? you (are|will)|pretend (to be|you are)|act as (an? )?(unrestricted|unfiltered|different))\b/i },
+  { id: 'fake-delimiter', re: /<\/?(system|assistant|instructions?)>|\[\/?(system|INST)\]|^#{2,}\s*(system|new instructions)\b/im },
+  { id: 'jailbreak', re: /\b(jailbreak|developer mode|DAN mode|do anything now)\b/i },
+];
+
+const EXCERPT_CHARS = 120;
+
+/** Screens each text for injection patterns; one finding per text and pattern. */
+export function screenForInjection(texts: Array<{ source: string; text: string }>): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+  for (const { source, text } of texts) {
+    for (const p of PATTERNS) {
+      const m = p.re.exec(text);
+      if (!m) continue;
+      const start = Math.max(0, m.index - 20);
+      const excerpt = text.slice(start, start + EXCERPT_CHARS).replace(/\s+/g, ' ').trim();
+      findings.push({ source, pattern: p.id, excerpt });
+    }
+  }
+  return findings;
+}
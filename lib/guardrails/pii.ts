@@ -0,0 +1,126 @@
+import { createHmac, randomBytes } from 'crypto';
+import { PiiKind } from './types';
+
+type Detector = { kind: PiiKind; re: RegExp; valid?: (match: string) => boolean };
+
+const digits = (s: string) => s.replace(/\D/g, '');
+
+function luhn(s: string): boolean {
+  const d = digits(s);
+  if (d.length < 13 || d.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    let n = Number(d[d.length - 1 - i]);
+    if (i % 2 === 1) n = n * 2 > 9 ? n * 2 - 9 : n * 2;
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check, so ordinary codes of the same shape are left alone.
+function ibanChecksum(s: string): boolean {
+  const iban = s.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let rest = 0;
+  for (const ch of rearranged) {
+    const v = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const c of v) rest = (rest * 10 + Number(c)) % 97;
+  }
+  return rest === 1;
+}
+
+const phoneDigits = (s: string) => digits(s).length >= 8 && digits(s).length <= 15;
+const DATE_LIKE = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+
+// Order matters: earlier detectors claim their matches before later ones see the text.
+const DETECTORS: Detector[] = [
+  { kind: 'email', re: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { kind: 'iban', re: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, valid: ibanChecksum },
+  { kind: 'card', re: /\b\d(?:[ -]?\d){12,18}\b/g, valid: luhn },
+  { kind: 'phone', re: /(?:\+|\b00)\d{1,3}[ ./-]?(?:\(\d{1,4}\)[ ./-]?)?\d[\d ./-]{5,16}\d\b/g, valid: phoneDigits },
+  { kind: 'phone', re: /\b0\d{1,4}[ ./-]?\d[\d ./-]{4,14}\d\b/g, valid: m => phoneDigits(m) && !DATE_LIKE.test(m) },
+  // Names are only recognised after a title; free-standing names need a proper NER model.
+  {
+    kind: 'name',
+    re: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof|Herr|Frau|Mme|Mlle|Pan|Pani)\.? [A-Z\u00c0-\u017e][a-z\u00df-\u017e'-]+(?: [A-Z\u00c0-\u017e][a-z\u00df-\u017e'-]+)?/g,
+  },
+];
+
+const TOKEN = /\[(EMAIL|PHONE|IBAN|CARD|NAME)_[0-9a-f]{8}\]/g;
+// A token cut off at the end of streamed text.
+const PARTIAL_TOKEN = /\[[A-Z]*(?:_[0-9a-f]{0,8})?$/;
+
+let processKey: string | undefined;
+
+/**
+ * Key for pseudonyms, from `PII_PSEUDONYM_KEY`. Without one a random key is used, so
+ * pseudonyms in stored conversation summaries stop resolving after a restart.
+ */
+function pseudonymKey(): string {
+  if (process.env.PII_PSEUDONYM_KEY) return process.env.PII_PSEUDONYM_KEY;
+  processKey ??= randomBytes(32).toString('hex');
+  return processKey;
+}
+
+export type Pseudonymiser = {
+  redact(text: string): string;
+  // Redacts every string inside a JSON-like value.
+  redactDeep<T>(value: T): T;
+  // Puts back originals for pseudonyms created by this instance; unknown tokens stay as they are.
+  restore(text: string): string;
+  restoreDeep<T>(value: T): T;
+  // Text safe to restore and show while streaming: a trailing partial token is held back.
+  restorePrefix(text: string): string;
+  // Distinct values redacted so far, per kind.
+  counts(): Partial<Record<PiiKind, number>>;
+};
+
+function mapStrings(value: any, fn: (s: string) => string): any {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+  }
+  return value;
+}
+
+/**
+ * Replaces personal data with stable pseudonyms such as `[EMAIL_3fa2c1d0]`. The same value
+ * always gets the same pseudonym under one key, so the model can still tell people apart
+ * across turns and in the conversation summary. With `enabled: false` text passes through.
+ */
+export function createPseudonymiser(opts: { enabled?: boolean } = {}): Pseudonymiser {
+  const enabled = opts.enabled ?? process.env.PII_REDACTION !== 'off';
+  const originals = new Map<string, string>();
+  const seen = new Map<PiiKind, Set<string>>();
+
+  const tokenFor = (kind: PiiKind, value: string) => {
+    const hash = createHmac('sha256', pseudonymKey()).update(`${kind}:${value}`).digest('hex').slice(0, 8);
+    const token = `[${kind.toUpperCase()}_${hash}]`;
+    originals.set(token, value);
+    if (!seen.has(kind)) seen.set(kind, new Set());
+    seen.get(kind)!.add(value);
+    return token;
+  };
+
+  const redact = (text: string) => {
+    if (!enabled || !text) return text;
+    let out = text;
+    for (const d of DETECTORS) {
+      out = out.replace(d.re, m => (!d.valid || d.valid(m) ? tokenFor(d.kind, m) : m));
+    }
+    return out;
+  };
+
+  const restore = (text: string) => (originals.size === 0 ? text : text.replace(TOKEN, t => originals.get(t) ?? t));
+
+  return {
+    redact,
+    redactDeep: value => mapStrings(value, redact),
+    restore,
+    restoreDeep: value => mapStrings(value, restore),
+    restorePrefix: text => restore(text.replace(PARTIAL_TOKEN, '')),
+    counts: () => Object.fromEntries(Array.from(seen).map(([kind, values]) => [kind, values.size])),
+  };
+}
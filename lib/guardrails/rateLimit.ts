@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { verifiedApiKey } from '../api/auth';
+import { GuardrailError } from './types';
+
+const WINDOW_MS = 60_000;
+const DEFAULT_PER_MINUTE = 20;
+// Expired windows are swept once the map grows past this many clients.
+const SWEEP_AT = 10_000;
+
+type Window = { start: number; count: number };
+
+// Per-process counters; a deployment with several instances needs a shared store instead.
+const windows = new Map<string, Window>();
+
+/** Model-backed requests allowed per client and minute, from `RATE_LIMIT_PER_MINUTE`; 0 disables. */
+export function rateLimitPerMinute(): number {
+  const raw = process.env.RATE_LIMIT_PER_MINUTE;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_PER_MINUTE;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : DEFAULT_PER_MINUTE;
+}
+
+/**
+ * Identifies the caller: the API key when it is one of `API_KEYS`, otherwise the client
+ * address, so inventing a key does not buy a fresh rate limit or budget.
+ * `X-Forwarded-For` is only trusted with `TRUST_PROXY=true`, since clients can set it.
+ */
+export function clientKey(req: NextApiRequest): string {
+  const key = verifiedApiKey(req);
+  if (key) return `key:${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+
+  const forwarded = process.env.TRUST_PROXY === 'true' ? req.headers['x-forwarded-for'] : undefined;
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return `ip:${first || req.socket?.remoteAddress || 'unknown'}`;
+}
+
+/** Counts one request for `key`; throws a 429 `GuardrailError` once the minute's budget is spent. */
+export function enforceRateLimit(key: string, now: number = Date.now()): void {
+  const limit = rateLimitPerMinute();
+  if (limit === 0) return;
+
+  if (windows.size > SWEEP_AT) {
+    for (const [k, w] of Array.from(windows)) if (now - w.start >= WINDOW_MS) windows.delete(k);
+  }
+
+  const current = windows.get(key);
+  const window = current && now - current.start < WINDOW_MS ? current : { start: now, count: 0 };
+  if (window.count >= limit) {
+    const retryAfter = Math.max(1, Math.ceil((window.start + WINDOW_MS - now) / 1000));
+    throw new GuardrailError(`Too many requests; try again in ${retryAfter} s`, 429, 'rate_limited', retryAfter);
+  }
+  window.count++;
+  windows.set(key, window);
+}
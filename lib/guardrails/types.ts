@@ -0,0 +1,35 @@
+export const PII_KINDS = ['email', 'phone', 'iban', 'card', 'name'] as const;
+export type PiiKind = (typeof PII_KINDS)[number];
+
+/** Text that looks like an attempt to override the assistant's instructions. */
+export type InjectionFinding = {
+  // `message`, `history` or `document:<file name>`.
+  source: string;
+  pattern: string;
+  excerpt: string;
+};
+
+/** What the guardrails did to a chat turn; returned with the reply when anything applied. */
+export type GuardrailReport = {
+  // Distinct values pseudonymised before the model call, per kind.
+  redactions: Partial<Record<PiiKind, number>>;
+  injection: InjectionFinding[];
+  // Document excerpts left out because they were flagged and blocking is on.
+  droppedExcerpts?: number;
+};
+
+export const GUARDRAIL_ERROR_CODES = ['input_too_large', 'state_too_large', 'rate_limited', 'prompt_injection', 'budget_exceeded', 'model_unpriced'] as const;
+export type GuardrailErrorCode = (typeof GUARDRAIL_ERROR_CODES)[number];
+
+export class GuardrailError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: GuardrailErrorCode,
+    // Seconds until the client may try again (rate limits only).
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'GuardrailError';
+  }
+}
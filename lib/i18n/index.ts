@@ -0,0 +1,29 @@
+import i18n from 'i18next';
+import { initReactI18next } from 'react-i18next';
+import de from './locales/de.json';
+import en from './locales/en.json';
+import fr from './locales/fr.json';
+import lv from './locales/lv.json';
+import pl from './locales/pl.json';
+import { DEFAULT_LOCALE } from './locales';
+
+export * from './locales';
+
+// Always start in the default locale so server and client render the same markup; the
+// page switches to the stored or browser language after hydration.
+if (!i18n.isInitialized) {
+  i18n.use(initReactI18next).init({
+    resources: {
+      en: { translation: en },
+      de: { translation: de },
+      fr: { translation: fr },
+      lv: { translation: lv },
+      pl: { translation: pl },
+    },
+    lng: DEFAULT_LOCALE,
+    fallbackLng: DEFAULT_LOCALE,
+    interpolation: { escapeValue: false },
+  });
+}
+
+export default i18n;
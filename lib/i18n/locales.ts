@@ -0,0 +1,21 @@
+/** UI and reply languages. Keys are BCP 47 primary language tags. */
+export const LOCALES = {
+  en: { label: 'English', englishName: 'English' },
+  de: { label: 'Deutsch', englishName: 'German' },
+  fr: { label: 'Français', englishName: 'French' },
+  lv: { label: 'Latviešu', englishName: 'Latvian' },
+  pl: { label: 'Polski', englishName: 'Polish' },
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (v: unknown): v is Locale =>
+  typeof v === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, v);
+
+/** Best supported match for a browser language such as `de-AT`, or the default. */
+export function matchLocale(tag: string | undefined | null): Locale {
+  const primary = (tag || '').toLowerCase().split('-')[0];
+  return isLocale(primary) ? primary : DEFAULT_LOCALE;
+}
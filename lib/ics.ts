@@ -0,0 +1,79 @@
+import type { TrackedRoadmapEntry } from './roadmap';
+
+// RFC 5545 text escaping.
+const escapeText = (s: string) =>
+  s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 lines are limited to 75 octets of UTF-8; continuation lines start with a space,
+// which counts towards the limit. Lines are only cut between code points.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, 'utf8');
+    if (octets + size > 75) {
+      parts.push(part);
+      part = ' ';
+      octets = 1;
+    }
+    part += ch;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n');
+}
+
+const compactDate = (d: string) => d.replace(/-/g, '');
+
+const stamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Builds an iCalendar feed with one all-day event per dated roadmap task. Tasks that are
+ * already done are left out so calendars only show open deadlines. Event UIDs include the
+ * assessment id, since duplicated assessments share task ids.
+ */
+export function roadmapToIcs(
+  roadmap: TrackedRoadmapEntry[],
+  opts: { assessmentId: string; calendarName: string; now?: Date }
+): string {
+  const dtstamp = stamp(opts.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EU AI Act Assistant//Roadmap//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(opts.calendarName)}`,
+  ];
+
+  for (const entry of roadmap) {
+    for (const task of entry.tasks) {
+      if (!task.dueDate || task.status === 'done') continue;
+      const description = [
+        entry.useCaseName ? `Use case: ${entry.useCaseName}` : `Use case: ${entry.useCaseId}`,
+        task.owner ? `Owner: ${task.owner}` : '',
+        `Status: ${task.status}`,
+        task.acceptance ? `Acceptance: ${task.acceptance}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      const next = new Date(`${task.dueDate}T00:00:00Z`);
+      next.setUTCDate(next.getUTCDate() + 1);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${task.id}.${opts.assessmentId}@eu-ai-act-assistant`,
+        `DTSTAMP:${dtstamp}`,
+        `DTSTART;VALUE=DATE:${compactDate(task.dueDate)}`,
+        `DTEND;VALUE=DATE:${compactDate(next.toISOString().slice(0, 10))}`,
+        `SUMMARY:${escapeText(task.title)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        'END:VEVENT'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
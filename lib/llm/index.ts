@@ -0,0 +1,78 @@
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createOpenAIResponsesProvider } from './openaiResponses';
+import { LlmProvider, LlmProviderError } from './types';
+
+export * from './tokens';
+export * from './types';
+
+export const PROVIDER_NAMES = ['openai', 'compatible', 'mock'] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+const isProviderName = (s: string): s is ProviderName =>
+  (PROVIDER_NAMES as readonly string[]).includes(s);
+
+function createProvider(name: ProviderName): LlmProvider {
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new LlmProviderError('OPENAI_API_KEY is not set on the server', 500);
+      return createOpenAIResponsesProvider({ apiKey, baseUrl: process.env.OPENAI_BASE_URL });
+    }
+    case 'compatible': {
+      const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) throw new LlmProviderError('OPENAI_COMPATIBLE_BASE_URL is not set on the server', 500);
+      return createOpenAICompatibleProvider({
+        baseUrl,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        azureApiVersion: process.env.AZURE_OPENAI_API_VERSION,
+      });
+    }
+    case 'mock':
+      return createMockProvider({ fixturesPath: process.env.LLM_MOCK_FIXTURES });
+  }
+}
+
+function defaultModel(name: ProviderName): string {
+  switch (name) {
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    case 'compatible':
+      return process.env.OPENAI_COMPATIBLE_MODEL || '';
+    case 'mock':
+      return 'mock';
+  }
+}
+
+/**
+ * The provider name and model a request asks for, without creating the provider. `model`
+ * may be a plain model name for the configured provider (`LLM_PROVIDER`, default `openai`)
+ * or `<provider>:<model>`, e.g. `mock`, `compatible:mistral-large-latest` or `openai:gpt-4o`.
+ */
+export function resolveModel(model?: unknown): { provider: ProviderName; model: string } {
+  const configured = (process.env.LLM_PROVIDER || 'openai').trim();
+  if (!isProviderName(configured)) {
+    throw new LlmProviderError(`Unknown LLM_PROVIDER "${configured}"`, 500);
+  }
+
+  let name: ProviderName = configured;
+  let modelName = typeof model === 'string' ? model.trim() : '';
+
+  const prefix = modelName.split(':', 1)[0];
+  if (isProviderName(prefix)) {
+    name = prefix;
+    modelName = modelName.slice(prefix.length + 1).trim();
+  }
+
+  const resolvedModel = modelName || defaultModel(name);
+  if (!resolvedModel) {
+    throw new LlmProviderError(`No model configured for the "${name}" provider`, 500);
+  }
+  return { provider: name, model: resolvedModel };
+}
+
+/** Resolves the provider and model for a request; see `resolveModel` for the format. */
+export function resolveProvider(model?: unknown): { provider: LlmProvider; model: string } {
+  const resolved = resolveModel(model);
+  return { provider: createProvider(resolved.provider), model: resolved.model };
+}
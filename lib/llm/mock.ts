@@ -0,0 +1,93 @@
+import fs from 'fs';
+import defaultFixtures from './fixtures/mock-replies.json';
+import { estimateTokens } from './tokens';
+import { LlmProvider, LlmProviderError, LlmRequest, LlmResult, LlmStreamChunk } from './types';
+
+export type MockFixture = {
+  id: string;
+  // Keywords matched (case-insensitive, at word start) against the user's message.
+  // A fixture with no keywords is the fallback.
+  match: string[];
+  reply: string;
+  // Tools to call before replying, when the request offers them. The reply is returned
+  // once their results come back.
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+};
+
+function loadFixtures(path?: string): MockFixture[] {
+  if (!path) return defaultFixtures as MockFixture[];
+  const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  if (!Array.isArray(parsed)) throw new LlmProviderError(`Mock fixtures in ${path} must be an array`, 500);
+  return parsed as MockFixture[];
+}
+
+function userMessage(input: string): string {
+  try {
+    const env = JSON.parse(input);
+    if (typeof env?.message === 'string') return env.message;
+  } catch {}
+  return input;
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function pickFixture(fixtures: MockFixture[], message: string): MockFixture {
+  const hit = fixtures.find(f =>
+    f.match.length > 0 && f.match.some(k => new RegExp(`\\b${escapeRegExp(k)}`, 'i').test(message))
+  );
+  const fallback = fixtures.find(f => f.match.length === 0);
+  if (hit) return hit;
+  if (fallback) return fallback;
+  throw new LlmProviderError('No mock fixture matches and no fallback fixture is defined', 500);
+}
+
+/**
+ * Deterministic offline provider. Replies come from fixture files, so development and
+ * tests run without network access or API keys.
+ */
+export function createMockProvider(opts: { fixturesPath?: string } = {}): LlmProvider {
+  const fixtures = loadFixtures(opts.fixturesPath);
+
+  const run = (req: LlmRequest): LlmResult => {
+    const fixture = pickFixture(fixtures, userMessage(req.input));
+    const inputTokens = estimateTokens(req.system) + estimateTokens(req.input);
+    const offered = new Set((req.tools || []).map(t => t.name));
+    const calls = req.toolRounds?.length || req.toolChoice === 'none'
+      ? []
+      : (fixture.toolCalls || []).filter(c => offered.has(c.name));
+    if (calls.length > 0) {
+      const toolCalls = calls.map((c, i) => ({ id: `call-${i + 1}`, name: c.name, arguments: JSON.stringify(c.arguments) }));
+      const outputTokens = estimateTokens(JSON.stringify(toolCalls));
+      return {
+        text: '',
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        raw: { provider: 'mock', fixture: fixture.id, model: req.model },
+        toolCalls,
+      };
+    }
+    const outputTokens = estimateTokens(fixture.reply);
+    return {
+      text: fixture.reply,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      raw: { provider: 'mock', fixture: fixture.id, model: req.model },
+    };
+  };
+
+  return {
+    name: 'mock',
+
+    async complete(req): Promise<LlmResult> {
+      return run(req);
+    },
+
+    async *stream(req, { signal } = {}): AsyncGenerator<LlmStreamChunk> {
+      const result = run(req);
+      // Split on whitespace boundaries so the UI sees token-like increments.
+      for (const piece of result.text.match(/\S+\s*|\s+/g) || []) {
+        if (signal?.aborted) return;
+        yield { type: 'delta', text: piece };
+      }
+      yield { type: 'done', result };
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { sseData } from './sseLines';
+import { LlmProvider, LlmProviderError, LlmRequest, LlmResult, LlmStreamChunk, LlmToolCall, LlmUsage } from './types';
+
+export type OpenAICompatibleOptions = {
+  // e.g. https://api.mistral.ai/v1, http://localhost:11434/v1 (Ollama), http://vllm:8000/v1,
+  // or an Azure deployment URL such as https://<res>.openai.azure.com/openai/deployments/<name>
+  baseUrl: string;
+  apiKey?: string;
+  // When set, the Azure `api-key` header and `api-version` query parameter are used.
+  azureApiVersion?: string;
+};
+
+function extractText(d: any): string {
+  const cc = d?.choices?.[0]?.message?.content;
+  if (typeof cc === 'string') return cc;
+  if (Array.isArray(cc)) return cc.map((x: any) => x?.text || '').join('\n');
+  return '';
+}
+
+function extractUsage(d: any): LlmUsage | undefined {
+  const u = d?.usage;
+  if (!u || typeof u !== 'object') return undefined;
+  const inputTokens = Number(u.prompt_tokens) || 0;
+  const outputTokens = Number(u.completion_tokens) || 0;
+  return { inputTokens, outputTokens, totalTokens: Number(u.total_tokens) || inputTokens + outputTokens };
+}
+
+function extractToolCalls(d: any): LlmToolCall[] | undefined {
+  const calls = d?.choices?.[0]?.message?.tool_calls;
+  if (!Array.isArray(calls) || calls.length === 0) return undefined;
+  return calls.map((c: any) => ({ id: String(c.id), name: c.function?.name || '', arguments: c.function?.arguments || '{}' }));
+}
+
+function buildMessages(req: LlmRequest) {
+  return [
+    { role: 'system', content: req.system },
+    { role: 'user', content: req.input },
+    ...(req.toolRounds || []).flatMap(round => [
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: round.calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } })),
+      },
+      ...round.results.map(r => ({ role: 'tool', tool_call_id: r.callId, content: r.output })),
+    ]),
+  ];
+}
+
+/** Any server implementing `POST /chat/completions` (Azure OpenAI, Mistral, vLLM, Ollama, ...). */
+export function createOpenAICompatibleProvider(opts: OpenAICompatibleOptions): LlmProvider {
+  const base = opts.baseUrl.replace(/\/$/, '');
+  const url = opts.azureApiVersion
+    ? `${base}/chat/completions?api-version=${encodeURIComponent(opts.azureApiVersion)}`
+    : `${base}/chat/completions`;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (opts.apiKey) {
+    if (opts.azureApiVersion) headers['api-key'] = opts.apiKey;
+    else headers.Authorization = `Bearer ${opts.apiKey}`;
+  }
+
+  const post = async (req: LlmRequest, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: req.model,
+        messages: buildMessages(req),
+        temperature: req.temperature ?? 0,
+        ...(req.tools?.length
+          ? {
+              tools: req.tools.map(t => ({
+                type: 'function',
+                function: { name: t.name, description: t.description, parameters: t.parameters },
+              })),
+              tool_choice: req.toolChoice || 'auto',
+            }
+          : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new LlmProviderError(`LLM error: ${errText}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    name: 'compatible',
+
+    async complete(req, { signal } = {}): Promise<LlmResult> {
+      const data = await (await post(req, false, signal)).json();
+      return { text: extractText(data), usage: extractUsage(data), raw: data, toolCalls: extractToolCalls(data) };
+    },
+
+    async *stream(req, { signal } = {}): AsyncGenerator<LlmStreamChunk> {
+      const response = await post(req, true, signal);
+      if (!response.body) throw new LlmProviderError('LLM returned an empty stream');
+
+      let text = '';
+      let usage: LlmUsage | undefined;
+      let last: any = null;
+      // Tool calls arrive in fragments keyed by index; names and ids first, arguments in pieces.
+      const calls: LlmToolCall[] = [];
+      for await (const evt of sseData(response.body)) {
+        last = evt;
+        const delta = evt?.choices?.[0]?.delta;
+        if (typeof delta?.content === 'string' && delta.content) {
+          text += delta.content;
+          yield { type: 'delta', text: delta.content };
+        }
+        for (const part of Array.isArray(delta?.tool_calls) ? delta.tool_calls : []) {
+          const i = Number(part.index) || 0;
+          const call = (calls[i] ||= { id: '', name: '', arguments: '' });
+          if (part.id) call.id = String(part.id);
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+        usage = extractUsage(evt) || usage;
+      }
+      const toolCalls = calls.filter(Boolean);
+      yield { type: 'done', result: { text, usage, raw: last, ...(toolCalls.length > 0 ? { toolCalls } : {}) } };
+    },
+  };
+}
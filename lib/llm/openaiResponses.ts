@@ -0,0 +1,126 @@
+import { sseData } from './sseLines';
+import { LlmProvider, LlmProviderError, LlmRequest, LlmResult, LlmStreamChunk, LlmToolCall, LlmUsage } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+function extractText(d: any): string {
+  if (!d) return '';
+  if (typeof d.output_text === 'string' && d.output_text.trim()) return d.output_text;
+
+  if (Array.isArray(d.output)) {
+    const parts: string[] = [];
+    for (const item of d.output) {
+      const content = item?.content;
+      if (Array.isArray(content)) {
+        for (const c of content) {
+          const val =
+            (typeof c?.text === 'string' && c.text) ||
+            (typeof c?.text?.value === 'string' && c.text.value) ||
+            '';
+          if (val) parts.push(val);
+        }
+      }
+    }
+    if (parts.join('').trim()) return parts.join('\n');
+  }
+  return '';
+}
+
+function extractUsage(d: any): LlmUsage | undefined {
+  const u = d?.usage;
+  if (!u || typeof u !== 'object') return undefined;
+  const inputTokens = Number(u.input_tokens) || 0;
+  const outputTokens = Number(u.output_tokens) || 0;
+  return { inputTokens, outputTokens, totalTokens: Number(u.total_tokens) || inputTokens + outputTokens };
+}
+
+function extractToolCalls(d: any): LlmToolCall[] | undefined {
+  if (!Array.isArray(d?.output)) return undefined;
+  const calls = d.output
+    .filter((item: any) => item?.type === 'function_call' && typeof item.name === 'string')
+    .map((item: any) => ({ id: String(item.call_id || item.id), name: item.name, arguments: item.arguments || '{}' }));
+  return calls.length > 0 ? calls : undefined;
+}
+
+// Plain string input unless earlier tool rounds have to be replayed as items.
+function buildInput(req: LlmRequest) {
+  const prompt = `${req.system}\n\n<INPUT>\n${req.input}`;
+  if (!req.toolRounds?.length) return prompt;
+  return [
+    { role: 'user', content: prompt },
+    ...req.toolRounds.flatMap(round => [
+      ...round.calls.map(c => ({ type: 'function_call', call_id: c.id, name: c.name, arguments: c.arguments })),
+      ...round.results.map(r => ({ type: 'function_call_output', call_id: r.callId, output: r.output })),
+    ]),
+  ];
+}
+
+/** OpenAI Responses API (`POST /v1/responses`). */
+export function createOpenAIResponsesProvider(opts: { apiKey: string; baseUrl?: string }): LlmProvider {
+  const url = `${(opts.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '')}/responses`;
+
+  const post = async (req: LlmRequest, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${opts.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: req.model,
+        input: buildInput(req),
+        temperature: req.temperature ?? 0,
+        ...(req.tools?.length
+          ? {
+              tools: req.tools.map(t => ({ type: 'function', name: t.name, description: t.description, parameters: t.parameters })),
+              tool_choice: req.toolChoice || 'auto',
+            }
+          : {}),
+        store: false,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new LlmProviderError(`OpenAI error: ${errText}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+
+    async complete(req, { signal } = {}): Promise<LlmResult> {
+      const data = await (await post(req, false, signal)).json();
+      return { text: extractText(data), usage: extractUsage(data), raw: data, toolCalls: extractToolCalls(data) };
+    },
+
+    async *stream(req, { signal } = {}): AsyncGenerator<LlmStreamChunk> {
+      const response = await post(req, true, signal);
+      if (!response.body) throw new LlmProviderError('OpenAI returned an empty stream');
+
+      let text = '';
+      let completed: any = null;
+      for await (const evt of sseData(response.body)) {
+        if (evt.type === 'response.output_text.delta' && typeof evt.delta === 'string') {
+          text += evt.delta;
+          yield { type: 'delta', text: evt.delta };
+        } else if (evt.type === 'response.completed') {
+          completed = evt.response;
+        } else if (evt.type === 'response.failed' || evt.type === 'error') {
+          throw new LlmProviderError(evt.response?.error?.message || evt.message || 'OpenAI stream failed');
+        }
+      }
+      yield {
+        type: 'done',
+        result: {
+          text: text || extractText(completed),
+          usage: extractUsage(completed),
+          raw: completed,
+          toolCalls: extractToolCalls(completed),
+        },
+      };
+    },
+  };
+}
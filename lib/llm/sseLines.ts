@@ -0,0 +1,35 @@
+/**
+ * Yields the JSON payload of every `data:` event in an upstream SSE body. Used by the
+ * providers to consume OpenAI-style streams; `[DONE]` sentinels are skipped.
+ */
+export async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.indexOf('\n\n')) >= 0) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      const dataLine = chunk
+        .split('\n')
+        .filter(l => l.startsWith('data:'))
+        .map(l => l.slice(5).trim())
+        .join('');
+      if (!dataLine || dataLine === '[DONE]') continue;
+
+      let evt: any;
+      try {
+        evt = JSON.parse(dataLine);
+      } catch {
+        continue;
+      }
+      yield evt;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+// Rough 4-characters-per-token estimate. Good enough for budgeting context and for stable
+// usage figures in the mock provider; real providers report exact counts.
+export const estimateTokens = (s: string) => Math.ceil(s.length / 4);
@@ -0,0 +1,63 @@
+/** A function the model may call; `parameters` is a JSON Schema object. */
+export type LlmToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type LlmToolCall = {
+  id: string;
+  name: string;
+  // JSON-encoded arguments exactly as the model produced them.
+  arguments: string;
+};
+
+/** One completed round of tool use: the model's calls and what they returned. */
+export type LlmToolRound = {
+  calls: LlmToolCall[];
+  results: Array<{ callId: string; output: string }>;
+};
+
+export type LlmRequest = {
+  model: string;
+  system: string;
+  // Serialised user envelope (message plus assessment state).
+  input: string;
+  temperature?: number;
+  tools?: LlmToolDefinition[];
+  // 'none' keeps the tools visible (needed to replay earlier rounds) but forces an answer.
+  toolChoice?: 'auto' | 'none';
+  // Earlier rounds of this turn, replayed after the input.
+  toolRounds?: LlmToolRound[];
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmResult = {
+  text: string;
+  usage?: LlmUsage;
+  raw: unknown;
+  // Set when the model wants tool results before it answers.
+  toolCalls?: LlmToolCall[];
+};
+
+export type LlmStreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: LlmResult };
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(req: LlmRequest, opts?: { signal?: AbortSignal }): Promise<LlmResult>;
+  stream(req: LlmRequest, opts?: { signal?: AbortSignal }): AsyncIterable<LlmStreamChunk>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string, readonly status = 502) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createPseudonymiser } from './guardrails/pii';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type Logger = {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+  // Logger whose lines also carry `fields`, e.g. the request id.
+  child(fields: Record<string, unknown>): Logger;
+};
+
+// Fields that hold conversation or document text; logged as their length only.
+const DEFAULT_CONTENT_KEYS = ['input', 'message', 'reply', 'text', 'prompt', 'content', 'draft', 'summary', 'original'];
+
+const isLevel = (v: unknown): v is LogLevel => (LOG_LEVELS as readonly unknown[]).includes(v);
+
+/** Minimum level written, from `LOG_LEVEL` (default `info`). */
+export const logLevel = (): LogLevel => (isLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info');
+
+/**
+ * `LOG_REDACTION`: `content` (the default) drops conversation text and masks personal data
+ * in everything else; `pii` keeps text but masks personal data; `off` logs as is.
+ */
+function redactionMode(): 'content' | 'pii' | 'off' {
+  const mode = process.env.LOG_REDACTION;
+  return mode === 'pii' || mode === 'off' ? mode : 'content';
+}
+
+function contentKeys(): Set<string> {
+  const extra = (process.env.LOG_REDACT_KEYS || '').split(',').map(k => k.trim()).filter(Boolean);
+  return new Set([...DEFAULT_CONTENT_KEYS, ...extra]);
+}
+
+function redact(value: unknown, mode: 'content' | 'pii', keys: Set<string>, mask: (s: string) => string, key?: string): unknown {
+  if (typeof value === 'string') {
+    if (mode === 'content' && key && keys.has(key)) return `[${value.length} chars]`;
+    return mask(value);
+  }
+  if (Array.isArray(value)) return value.map(v => redact(v, mode, keys, mask, key));
+  if (value instanceof Error) return { name: value.name, message: mask(value.message) };
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, mode, keys, mask, k)]));
+  }
+  return value;
+}
+
+/** A logger writing one JSON object per line to stdout (stderr for errors). */
+export function createLogger(context: Record<string, unknown> = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields: Record<string, unknown> = {}) => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logLevel())) return;
+    const mode = redactionMode();
+    // Fresh per line so originals are not kept in memory; pseudonyms stay stable under one key.
+    const mask = mode === 'off' ? (s: string) => s : createPseudonymiser({ enabled: true }).redact;
+    const body = { ...context, ...fields };
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(mode === 'off' ? body : (redact(body, mode, contentKeys(), mask) as object)),
+    });
+    if (level === 'error') console.error(line);
+    else console.log(line);
+  };
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: fields => createLogger({ ...context, ...fields }),
+  };
+}
+
+/** Logger for code that runs outside a request. */
+export const logger = createLogger();
+
+const REQUEST_ID = /^[A-Za-z0-9._-]{8,64}$/;
+
+/**
+ * The request id: the caller's `X-Request-Id` when it looks like one, otherwise a new UUID.
+ * It is echoed in the response header so clients can quote it in support requests.
+ */
+export function requestId(req: NextApiRequest, res: NextApiResponse): string {
+  const header = req.headers['x-request-id'];
+  const given = Array.isArray(header) ? header[0] : header;
+  const id = given && REQUEST_ID.test(given) ? given : randomUUID();
+  res.setHeader('X-Request-Id', id);
+  return id;
+}
@@ -0,0 +1,114 @@
+import { LlmProvider } from './llm';
+import { Logger, logger } from './logger';
+import { ChatContract, ValidationIssue, validateChatContract } from './responseSchema';
+
+export type ContractReport = {
+  valid: boolean;
+  repaired: boolean;
+  repairAttempts: number;
+  issues: ValidationIssue[];
+};
+
+type Extracted = { jsonText: string | null; error?: string };
+
+// Cap on how much of a broken reply is sent back to the model for repair.
+const MAX_REPAIR_INPUT_CHARS = 12000;
+
+const REPAIR_PROMPT = `
+You repair the JSON block of an EU AI Act assistant reply.
+Return ONLY one fenced \`\`\`json block containing a single JSON object with any of these keys:
+"guidance" (string[], max 6), "suggestions" (string[], max 4), "questions" (string[], max 3),
+"examples" (string[], max 3), "roadmap" (array of { "useCaseId", "useCaseName", "risk": { "level", "rationale" },
+"tasks": [{ "title", "owner", "dueInDays" (<= 90), "acceptance" }] }) and "stateUpdates" ({ "org", "roles", "useCases" }).
+Keep the original content; fix syntax, close truncated structures and drop anything you cannot recover.
+Never add facts that are not in the original.
+`;
+
+/** Locates the JSON block in a reply. Reports truncated fences and missing blocks. */
+export function extractJsonBlock(reply: string): Extracted {
+  const fenced = reply.match(/```json\s*([\s\S]*?)```/i);
+  if (fenced) return { jsonText: fenced[1] };
+
+  const open = reply.search(/```json/i);
+  if (open >= 0) {
+    return { jsonText: reply.slice(open).replace(/^```json\s*/i, ''), error: 'JSON block is not closed (reply truncated?)' };
+  }
+
+  const plain = reply.match(/{[\s\S]*}/);
+  if (plain) return { jsonText: plain[0] };
+  return { jsonText: null, error: 'Reply contains no JSON block' };
+}
+
+/** Removes the JSON block (closed or truncated) and other fenced code from the prose. */
+export function stripJsonBlocks(reply: string): string {
+  return reply
+    .replace(/```json[\s\S]*?```/gi, '')
+    .replace(/```[\s\S]*?```/gi, '')
+    .replace(/```json[\s\S]*$/i, '')
+    .trim();
+}
+
+function tryParse(text: string | null): { obj?: unknown; error?: string } {
+  if (text === null) return { error: 'Reply contains no JSON block' };
+  try {
+    return { obj: JSON.parse(text) };
+  } catch (err: any) {
+    return { error: err?.message || 'Invalid JSON' };
+  }
+}
+
+/**
+ * Parses and validates the model's JSON block. When it is missing, truncated or not
+ * parseable, the model is asked to repair it, at most `maxAttempts` times.
+ */
+export async function parseModelContract(
+  reply: string,
+  opts: { provider?: LlmProvider; model?: string; maxAttempts?: number; log?: Logger } = {}
+): Promise<{ contract: ChatContract; report: ContractReport }> {
+  const maxAttempts = opts.maxAttempts ?? Number(process.env.JSON_REPAIR_ATTEMPTS ?? 1);
+  const extracted = extractJsonBlock(reply);
+  let parsed = extracted.error && extracted.jsonText === null ? { error: extracted.error } : tryParse(extracted.jsonText);
+  let broken = extracted.jsonText ?? stripJsonBlocks(reply);
+  let attempts = 0;
+
+  while (parsed.error && opts.provider && opts.model && attempts < maxAttempts) {
+    attempts += 1;
+    try {
+      const fixed = await opts.provider.complete({
+        model: opts.model,
+        system: REPAIR_PROMPT,
+        input: JSON.stringify({ error: parsed.error, original: broken.slice(0, MAX_REPAIR_INPUT_CHARS) }),
+        temperature: 0,
+      });
+      const next = extractJsonBlock(fixed.text);
+      parsed = tryParse(next.jsonText);
+      if (next.jsonText !== null) broken = next.jsonText;
+    } catch (err: any) {
+      (opts.log || logger).warn('JSON repair failed', { error: err?.message || String(err) });
+      break;
+    }
+  }
+
+  if (parsed.error) {
+    return {
+      contract: {},
+      report: {
+        valid: false,
+        repaired: false,
+        repairAttempts: attempts,
+        issues: [{ path: '$', action: 'dropped', message: parsed.error }],
+      },
+    };
+  }
+
+  const { value, issues } = validateChatContract(parsed.obj);
+  return {
+    contract: value,
+    report: {
+      valid: issues.length === 0 && attempts === 0,
+      repaired: attempts > 0,
+      repairAttempts: attempts,
+      issues,
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import catalogueData from './data/obligations.v1.json';
+import type { AgentState } from './agentState';
+import { classifyUseCase, RiskClassification, RiskLevel } from './riskClassifier';
+import { rolesForUseCase } from './roles';
+
+export type CatalogueObligation = {
+  id: string;
+  article: string;
+  title: string;
+  description: string;
+  // Extra applicability condition the user must check, shown next to the obligation.
+  condition?: string;
+  roles: string[];
+  riskLevels: RiskLevel[];
+  // Rule ids from the risk classifier; when set, at least one must have fired.
+  triggers?: string[];
+};
+
+export type ObligationCatalogue = {
+  version: string;
+  regulation: string;
+  obligations: CatalogueObligation[];
+};
+
+export const OBLIGATION_CATALOGUE = catalogueData as ObligationCatalogue;
+
+export const OBLIGATION_STATUSES = ['open', 'in-progress', 'done', 'not-applicable'] as const;
+export type ObligationStatus = (typeof OBLIGATION_STATUSES)[number];
+
+export type EvidenceItem = {
+  id: string;
+  note?: string;
+  url?: string;
+  addedAt: string;
+};
+
+/** Tracking record for one obligation on one use case. */
+export type ObligationRecord = {
+  // `${useCaseId}:${obligationId}`
+  id: string;
+  useCaseId: string;
+  obligationId: string;
+  status: ObligationStatus;
+  owner?: string;
+  evidence: EvidenceItem[];
+  // Catalogue version the record was last updated against.
+  catalogueVersion: string;
+  updatedAt?: string;
+};
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+export const obligationRecordId = (useCaseId: string, obligationId: string) => `${useCaseId}:${obligationId}`;
+
+const SEVERITY: Record<RiskLevel, number> = { unknown: 0, minimal: 1, limited: 2, high: 3, prohibited: 4 };
+
+/**
+ * Risk level obligations are derived from: the stricter of the stored label and the
+ * rule-based classification, so a conflict never hides obligations until it is resolved.
+ */
+export function effectiveRisk(u: UseCase, cls: RiskClassification = classifyUseCase(u)): RiskLevel {
+  const label: RiskLevel = u.risk || 'unknown';
+  return cls.level !== 'unknown' && SEVERITY[cls.level] > SEVERITY[label] ? cls.level : label;
+}
+
+/** Catalogue entries that apply to a use case given the roles held for it. */
+export function applicableObligations(
+  u: UseCase,
+  roles: string[],
+  catalogue: ObligationCatalogue = OBLIGATION_CATALOGUE
+): CatalogueObligation[] {
+  const cls = classifyUseCase(u);
+  const risk = effectiveRisk(u, cls);
+  const lowerRoles = roles.map(r => r.toLowerCase());
+  const fired = new Set([cls.ruleId, ...cls.alsoMatched.map(m => m.ruleId)].filter(Boolean));
+
+  return catalogue.obligations.filter(o =>
+    o.riskLevels.includes(risk) &&
+    o.roles.some(r => lowerRoles.includes(r)) &&
+    (!o.triggers || o.triggers.some(t => fired.has(t)))
+  );
+}
+
+export type TrackedObligation = { obligation: CatalogueObligation; record: ObligationRecord };
+
+export type ObligationMatrixRow = {
+  useCaseId: string;
+  useCaseName: string;
+  risk: RiskLevel;
+  items: TrackedObligation[];
+};
+
+/**
+ * Joins the applicable catalogue entries for a use case with their tracking records.
+ * Obligations without a record yet get a fresh `open` one; records for obligations that
+ * no longer apply are left out but kept in state, so they return if risk or roles change.
+ */
+export function trackedObligations(state: AgentState, u: UseCase): TrackedObligation[] {
+  const records = state.obligations || [];
+  return applicableObligations(u, rolesForUseCase(state, u)).map(obligation => {
+    const id = obligationRecordId(u.id, obligation.id);
+    return {
+      obligation,
+      record: records.find(r => r.id === id) || {
+        id,
+        useCaseId: u.id,
+        obligationId: obligation.id,
+        status: 'open',
+        evidence: [],
+        catalogueVersion: OBLIGATION_CATALOGUE.version,
+      },
+    };
+  });
+}
+
+/** One row per in-scope use case, for the obligations matrix. */
+export function buildObligationMatrix(state: AgentState): ObligationMatrixRow[] {
+  return (state.useCases || [])
+    .filter(u => u.inScope !== false)
+    .map(u => ({
+      useCaseId: u.id,
+      useCaseName: u.name || 'Untitled use case',
+      risk: effectiveRisk(u),
+      items: trackedObligations(state, u),
+    }));
+}
+
+/** Coerces client-supplied obligation records, dropping anything invalid. */
+export function sanitizeObligations(input: any): ObligationRecord[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((r: any) => r && typeof r.useCaseId === 'string' && typeof r.obligationId === 'string')
+    .map((r: any) => ({
+      id: obligationRecordId(r.useCaseId, r.obligationId),
+      useCaseId: r.useCaseId,
+      obligationId: r.obligationId,
+      status: (OBLIGATION_STATUSES as readonly string[]).includes(r.status) ? r.status : 'open',
+      owner: typeof r.owner === 'string' && r.owner.trim() ? r.owner.trim() : undefined,
+      evidence: (Array.isArray(r.evidence) ? r.evidence : [])
+        .filter((e: any) => e && typeof e.id === 'string' && (typeof e.note === 'string' || typeof e.url === 'string'))
+        .map((e: any) => ({
+          id: e.id,
+          note: typeof e.note === 'string' && e.note.trim() ? e.note.trim() : undefined,
+          url: typeof e.url === 'string' && /^https?:\/\//i.test(e.url.trim()) ? e.url.trim() : undefined,
+          addedAt: typeof e.addedAt === 'string' ? e.addedAt : new Date().toISOString(),
+        }))
+        .filter((e: EvidenceItem) => e.note || e.url),
+      catalogueVersion: typeof r.catalogueVersion === 'string' ? r.catalogueVersion : OBLIGATION_CATALOGUE.version,
+      updatedAt: typeof r.updatedAt === 'string' ? r.updatedAt : undefined,
+    }));
+}
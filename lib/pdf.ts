@@ -0,0 +1,473 @@
+import { inflateSync } from 'zlib';
+
+export type PdfBlock = {
+  text: string;
+  style: 'title' | 'heading' | 'subheading' | 'body' | 'bullet' | 'meta';
+};
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+const STYLES: Record<PdfBlock['style'], { size: number; bold: boolean; before: number; indent: number }> = {
+  title: { size: 18, bold: true, before: 0, indent: 0 },
+  heading: { size: 14, bold: true, before: 14, indent: 0 },
+  subheading: { size: 12, bold: true, before: 10, indent: 0 },
+  body: { size: 10, bold: false, before: 4, indent: 0 },
+  bullet: { size: 10, bold: false, before: 2, indent: 12 },
+  meta: { size: 9, bold: false, before: 2, indent: 0 },
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers.
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, 'š': 0x9a, 'Š': 0x8a, 'ž': 0x9e, 'Ž': 0x8e,
+};
+
+function winAnsiByte(ch: string): number | undefined {
+  const code = ch.codePointAt(0)!;
+  return WIN_ANSI_EXTRA[ch] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code > 0x9f) ? code : undefined);
+}
+
+// Letters that do not decompose into a base letter and an accent.
+const TRANSLITERATIONS: Record<string, string> = { ł: 'l', Ł: 'L', đ: 'd', Đ: 'D', ħ: 'h', Ħ: 'H', ı: 'i' };
+
+/**
+ * The standard fonts only cover WinAnsi, so other letters (Latvian ā, ņ, Polish ą, ł, ...)
+ * are printed without their accents, and anything else as `?`.
+ */
+function toWinAnsi(ch: string): string {
+  if (winAnsiByte(ch) !== undefined) return ch;
+  const base = TRANSLITERATIONS[ch] ?? ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return base && base !== ch && Array.from(base).every(c => winAnsiByte(c) !== undefined) ? base : '?';
+}
+
+function encodeWinAnsi(s: string): string {
+  let hex = '';
+  for (const ch of Array.from(s).map(toWinAnsi).join('')) hex += winAnsiByte(ch)!.toString(16).padStart(2, '0');
+  return `<${hex}>`;
+}
+
+const TRANSLITERATION_NOTE =
+  'Letters missing from the standard PDF fonts are printed without their accents, or as "?" where no plain letter fits. The Markdown and HTML exports keep the exact text.';
+
+// Helvetica averages roughly half an em per character; bold runs a little wider.
+const textWidth = (s: string, size: number, bold: boolean) => s.length * size * (bold ? 0.56 : 0.5);
+
+function wrap(text: string, size: number, bold: boolean, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width || !line) line = candidate;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Renders text blocks to a minimal, dependency-free PDF using the standard Helvetica
+ * fonts. Layout is deliberately simple: wrapped lines, headings and bullets on A4 pages.
+ * When some text had to be transliterated, a note at the end says so.
+ */
+export function renderTextPdf(blocks: PdfBlock[], opts: { title?: string } = {}): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Whitespace is re-flowed by `wrap`, so only printable characters count.
+  const lossy = blocks.some(b => Array.from(b.text.replace(/\s/g, '')).some(ch => winAnsiByte(ch) === undefined));
+  for (const block of lossy ? [...blocks, { text: TRANSLITERATION_NOTE, style: 'meta' as const }] : blocks) {
+    const st = STYLES[block.style];
+    const leading = st.size * 1.35;
+    const indent = st.indent;
+    const lines = wrap(block.text, st.size, st.bold, PAGE_WIDTH - 2 * MARGIN - indent);
+    y -= st.before;
+
+    lines.forEach((line, i) => {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      const ops = pages[pages.length - 1];
+      const font = st.bold ? '/F2' : '/F1';
+      if (block.style === 'bullet' && i === 0) {
+        ops.push(`BT ${font} ${st.size} Tf ${MARGIN} ${y.toFixed(2)} Td ${encodeWinAnsi('•')} Tj ET`);
+      }
+      ops.push(`BT ${font} ${st.size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td ${encodeWinAnsi(line)} Tj ET`);
+    });
+  }
+
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(''); // Pages, filled in once the page objects are known
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  add(`<< /Title ${encodeWinAnsi(opts.title || 'Document')} /Producer (EU AI Act Assistant) >>`);
+
+  const pageIds: number[] = [];
+  pages.forEach((ops, i) => {
+    const footer = `BT /F1 8 Tf ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td ${encodeWinAnsi(`${i + 1} / ${pages.length}`)} Tj ET`;
+    const stream = [...ops, footer].join('\n');
+    add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    const contentId = objects.length;
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`);
+    pageIds.push(objects.length);
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, 'latin1'));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, 'latin1');
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, 'latin1');
+}
+
+const WIN_ANSI_DECODE: Record<number, string> = Object.fromEntries(
+  Object.entries(WIN_ANSI_EXTRA).map(([ch, byte]) => [byte, ch])
+);
+
+function decodePdfString(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let s = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) s += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return s;
+  }
+  return bytes.map(b => WIN_ANSI_DECODE[b] ?? String.fromCharCode(b)).join('');
+}
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+// Names are kept as `/Name` strings; string operands stay bytes until the font is known.
+type Operand = string | number | { bytes: number[] } | Operand[];
+
+type Decoder = (bytes: number[]) => string;
+
+/**
+ * Pulls the text shown by one content stream's text operators (Tj, TJ, ' and ").
+ * Positioning operators only decide between a space and a line break. Strings are
+ * decoded with the ToUnicode map of the font selected by `Tf`, when `fonts` has one.
+ */
+function contentText(content: string, fonts: Map<string, Decoder> = new Map()): string {
+  let out = '';
+  let i = 0;
+  const stack: Operand[][] = [[]];
+  const operands = () => stack[stack.length - 1];
+  let decode: Decoder = decodePdfString;
+
+  const readLiteral = (): { bytes: number[] } => {
+    const bytes: number[] = [];
+    let depth = 1;
+    i++;
+    while (i < content.length) {
+      const c = content[i++];
+      if (c === '\\') {
+        const e = content[i++];
+        if (e in LITERAL_ESCAPES) bytes.push(LITERAL_ESCAPES[e]);
+        else if (/[0-7]/.test(e)) {
+          let oct = e;
+          while (oct.length < 3 && /[0-7]/.test(content[i])) oct += content[i++];
+          bytes.push(parseInt(oct, 8) & 0xff);
+        } else if (e === '\r' || e === '\n') {
+          if (e === '\r' && content[i] === '\n') i++;
+        } else bytes.push(e.charCodeAt(0));
+        continue;
+      }
+      if (c === '(') depth++;
+      if (c === ')' && --depth === 0) break;
+      bytes.push(c.charCodeAt(0));
+    }
+    return { bytes };
+  };
+
+  const readHex = (): { bytes: number[] } => {
+    const end = content.indexOf('>', i);
+    const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s+/g, '');
+    i = end < 0 ? content.length : end + 1;
+    const bytes: number[] = [];
+    for (let k = 0; k < hex.length; k += 2) bytes.push(parseInt(hex.slice(k, k + 2).padEnd(2, '0'), 16));
+    return { bytes };
+  };
+
+  const isBytes = (v: Operand | undefined): v is { bytes: number[] } => typeof v === 'object' && !Array.isArray(v);
+  const show = (v: Operand | undefined) => {
+    if (isBytes(v)) out += decode(v.bytes);
+    else if (Array.isArray(v)) {
+      // Large negative kerning in a TJ array is how many producers encode a word gap.
+      for (const part of v) {
+        if (isBytes(part)) out += decode(part.bytes);
+        else if (typeof part === 'number' && part < -200) out += ' ';
+      }
+    }
+  };
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+
+  while (i < content.length) {
+    const c = content[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '%') { while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++; continue; }
+    if (c === '(') { operands().push(readLiteral()); continue; }
+    if (c === '<' && content[i + 1] === '<') { i += 2; continue; }
+    if (c === '>' && content[i + 1] === '>') { i += 2; continue; }
+    if (c === '<') { operands().push(readHex()); continue; }
+    if (c === '[') { stack.push([]); i++; continue; }
+    if (c === ']') {
+      const arr = stack.length > 1 ? stack.pop()! : [];
+      operands().push(arr);
+      i++;
+      continue;
+    }
+    const m = /^[^\s()<>\[\]{}\/%]+|^\/[^\s()<>\[\]{}\/%]*|^[{}]/.exec(content.slice(i, i + 128));
+    const token = m ? m[0] : c;
+    i += token.length;
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) { operands().push(Number(token)); continue; }
+    if (token.startsWith('/')) { operands().push(token); continue; }
+
+    // An operator: act on it and clear its operands.
+    const ops = operands();
+    switch (token) {
+      case 'Tf': {
+        const name = ops[ops.length - 2];
+        decode = (typeof name === 'string' && fonts.get(name.slice(1))) || decodePdfString;
+        break;
+      }
+      case 'Tj': show(ops[ops.length - 1]); break;
+      case 'TJ': show(ops[ops.length - 1]); break;
+      case "'": newline(); show(ops[ops.length - 1]); break;
+      case '"': newline(); show(ops[ops.length - 1]); break;
+      case 'T*': newline(); break;
+      case 'Td':
+      case 'TD':
+        if (ops[ops.length - 1] !== 0) newline();
+        else if (out && !/\s$/.test(out)) out += ' ';
+        break;
+      case 'ET': newline(); break;
+    }
+    stack.length = 1;
+    stack[0] = [];
+  }
+  return out;
+}
+
+/** The `<< ... >>` dictionary around position `at`. */
+function enclosingDict(s: string, at: number): string {
+  let start = at;
+  for (let depth = 0; start > 0; ) {
+    start--;
+    if (s.startsWith('>>', start)) depth++;
+    else if (s.startsWith('<<', start) && depth-- === 0) break;
+  }
+  let end = at;
+  for (let depth = 0; end < s.length; end++) {
+    if (s.startsWith('<<', end)) { depth++; end++; }
+    else if (s.startsWith('>>', end) && depth-- === 0) break;
+  }
+  return s.slice(start, end + 2);
+}
+
+const utf16 = (hex: string) => {
+  let s = '';
+  for (let k = 0; k + 4 <= hex.length; k += 4) s += String.fromCharCode(parseInt(hex.slice(k, k + 4), 16));
+  return s;
+};
+
+/**
+ * Decoder for a ToUnicode CMap: codes of the codespace's width (two bytes for Identity-H
+ * fonts) looked up in its `bfchar` and `bfrange` entries. Codes the map lacks decode as
+ * WinAnsi for one-byte fonts and are dropped for two-byte ones.
+ */
+function toUnicodeDecoder(cmap: string): Decoder {
+  const width = (/begincodespacerange\s*<([0-9a-f]+)>/i.exec(cmap)?.[1].length ?? 4) / 2;
+  const map = new Map<number, string>();
+  for (const block of cmap.match(/beginbfchar[\s\S]*?endbfchar/g) || []) {
+    for (const m of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) map.set(parseInt(m[1], 16), utf16(m[2]));
+  }
+  for (const block of cmap.match(/beginbfrange[\s\S]*?endbfrange/g) || []) {
+    for (const m of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const lo = parseInt(m[1], 16);
+      const hi = Math.min(parseInt(m[2], 16), lo + 0xffff);
+      if (m[3].startsWith('[')) {
+        Array.from(m[3].matchAll(/<([0-9a-f]*)>/gi)).forEach((d, i) => lo + i <= hi && map.set(lo + i, utf16(d[1])));
+        continue;
+      }
+      // The last UTF-16 unit of the destination counts up through the range.
+      const dst = utf16(m[3].slice(1, -1));
+      const head = dst.slice(0, -1);
+      const last = dst.charCodeAt(dst.length - 1);
+      for (let code = lo; code <= hi; code++) map.set(code, head + String.fromCharCode(last + code - lo));
+    }
+  }
+  return bytes => {
+    let out = '';
+    for (let i = 0; i + width <= bytes.length; i += width) {
+      let code = 0;
+      for (let k = 0; k < width; k++) code = code * 256 + bytes[i + k];
+      out += map.get(code) ?? (width === 1 ? decodePdfString([code]) : '');
+    }
+    return out;
+  };
+}
+
+const ref = (dict: string, key: string) => {
+  const m = new RegExp(`/${key}\\s*(\\d+)\\s+\\d+\\s+R`).exec(dict);
+  return m ? Number(m[1]) : undefined;
+};
+
+/** The value of `key` in `dict` when it is a dictionary, inline or by reference. */
+function subDict(dict: string, key: string, objects: Map<number, string>): string | undefined {
+  const num = ref(dict, key);
+  if (num !== undefined) return objects.get(num);
+  const m = new RegExp(`/${key}\\s*<<`).exec(dict);
+  return m ? enclosingDict(dict, m.index + m[0].length) : undefined;
+}
+
+/**
+ * Font decoders by resource name for each content stream: a page's streams use the page's
+ * fonts (inherited from its parents when it has none), a form XObject its own. Streams
+ * found under no page fall back to every font name seen.
+ */
+function fontsByStream(objects: Map<number, string>, streams: Map<number, string>) {
+  const decoders = new Map<number, Decoder | undefined>();
+  const decoderFor = (font: number) => {
+    if (!decoders.has(font)) {
+      const cmap = ref(objects.get(font) || '', 'ToUnicode');
+      const text = cmap === undefined ? undefined : streams.get(cmap);
+      decoders.set(font, text === undefined ? undefined : toUnicodeDecoder(text));
+    }
+    return decoders.get(font);
+  };
+  const resourcesOf = (dict: string, depth = 0): string | undefined => {
+    const own = subDict(dict, 'Resources', objects);
+    const parent = ref(dict, 'Parent');
+    return own ?? (parent !== undefined && depth < 32 ? resourcesOf(objects.get(parent) || '', depth + 1) : undefined);
+  };
+  const all = new Map<string, Decoder>();
+  const fontsOf = (resources: string | undefined) => {
+    const fonts = new Map<string, Decoder>();
+    const dict = resources && subDict(resources, 'Font', objects);
+    for (const m of (dict || '').matchAll(/\/([^\s/<>\[\]()]+)\s*(\d+)\s+\d+\s+R/g)) {
+      const decoder = decoderFor(Number(m[2]));
+      if (!decoder) continue;
+      fonts.set(m[1], decoder);
+      if (!all.has(m[1])) all.set(m[1], decoder);
+    }
+    return fonts;
+  };
+
+  const byStream = new Map<number, Map<string, Decoder>>();
+  for (const [num, dict] of objects) {
+    if (/\/Subtype\s*\/Form\b/.test(dict)) byStream.set(num, fontsOf(subDict(dict, 'Resources', objects)));
+    if (!/\/Type\s*\/Page\b/.test(dict)) continue;
+    const fonts = fontsOf(resourcesOf(dict));
+    const contents = /\/Contents\s*\[([^\]]*)\]/.exec(dict)?.[1] ?? /\/Contents\s*(\d+\s+\d+\s+R)/.exec(dict)?.[1] ?? '';
+    for (const m of contents.matchAll(/(\d+)\s+\d+\s+R/g)) byStream.set(Number(m[1]), fonts);
+  }
+  return (num: number | undefined) => (num !== undefined && byStream.get(num)) || all;
+}
+
+/** The objects in a compressed object stream, by number. */
+function objectStreamEntries(dict: string, content: string): Array<[number, string]> {
+  const first = Number(/\/First\s+(\d+)/.exec(dict)?.[1] ?? 0);
+  const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+  const entries: Array<[number, string]> = [];
+  for (let k = 0; k + 1 < header.length; k += 2) {
+    const next = k + 3 < header.length ? header[k + 3] : content.length - first;
+    entries.push([header[k], content.slice(first + header[k + 1], first + next)]);
+  }
+  return entries;
+}
+
+/**
+ * True when `s` defines a composite font whose codes are glyph ids (Identity-H or -V)
+ * and which has no ToUnicode map, so its text cannot be turned back into characters.
+ */
+function hasUnmappedCidFont(s: string): boolean {
+  for (const m of s.matchAll(/\/Subtype\s*\/Type0\b/g)) {
+    const dict = enclosingDict(s, m.index!);
+    if (/\/Encoding\s*\/Identity-[HV]\b/.test(dict) && !/\/ToUnicode\b/.test(dict)) return true;
+  }
+  return false;
+}
+
+const UNMAPPED_FONT_MESSAGE =
+  'it uses fonts without a Unicode map, so its text cannot be extracted. Upload the source document as DOCX or TXT instead.';
+
+/**
+ * Best-effort text extraction from a PDF, without dependencies. Reads uncompressed and
+ * Flate-compressed content streams. Strings are decoded through their font's ToUnicode
+ * map when it has one, otherwise as WinAnsi or UTF-16. Scanned pages yield little or
+ * nothing. Files with a composite font that has no ToUnicode map throw, since its strings
+ * are glyph ids that would read as junk. Streams that together inflate past
+ * `maxInflatedBytes` throw zlib's `ERR_BUFFER_TOO_LARGE`.
+ */
+export function extractPdfText(pdf: Buffer, maxInflatedBytes: number): string {
+  const raw = pdf.toString('latin1');
+  if (hasUnmappedCidFont(raw)) throw new Error(UNMAPPED_FONT_MESSAGE);
+  // Dictionaries and decoded streams by object number, for resolving fonts and ToUnicode maps.
+  const objects = new Map<number, string>();
+  const streams = new Map<number, string>();
+  for (const m of raw.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+    const from = m.index! + m[0].length;
+    const end = raw.indexOf('endobj', from);
+    const stream = raw.indexOf('stream', from);
+    objects.set(Number(m[1]), raw.slice(from, stream >= 0 && (stream < end || end < 0) ? stream : end < 0 ? raw.length : end));
+  }
+  const parts: Array<{ num?: number; content: string }> = [];
+  let inflated = 0;
+  let from = 0;
+  for (;;) {
+    const start = raw.indexOf('stream', from);
+    if (start < 0) break;
+    // Skip the "stream" inside "endstream".
+    if (raw.slice(start - 3, start) === 'end') { from = start + 6; continue; }
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    from = end + 9;
+
+    const objAt = raw.lastIndexOf('obj', start);
+    const dict = raw.slice(Math.max(objAt, 0), start);
+    const header = /(\d+)\s+\d+\s+$/.exec(raw.slice(Math.max(objAt - 24, 0), Math.max(objAt, 0)));
+    const num = header ? Number(header[1]) : undefined;
+    if (/\/Subtype\s*\/Image|\/Type\s*\/XRef|\/(DCT|JPX|CCITTFax|JBIG2)Decode/.test(dict)) continue;
+    let dataStart = start + 6;
+    if (raw[dataStart] === '\r') dataStart++;
+    if (raw[dataStart] === '\n') dataStart++;
+    let data = pdf.subarray(dataStart, end);
+
+    if (/\/FlateDecode/.test(dict)) {
+      try {
+        data = inflateSync(data, { maxOutputLength: Math.max(1, maxInflatedBytes - inflated) });
+        inflated += data.length;
+      } catch (error: any) {
+        if (error?.code === 'ERR_BUFFER_TOO_LARGE') throw error;
+        continue;
+      }
+    } else if (/\/Filter/.test(dict)) continue;
+
+    const content = data.toString('latin1');
+    if (num !== undefined) streams.set(num, content);
+    // Font dictionaries can also sit in compressed object streams.
+    if (/\/Type\s*\/ObjStm/.test(dict)) {
+      if (hasUnmappedCidFont(content)) throw new Error(UNMAPPED_FONT_MESSAGE);
+      for (const [n, body] of objectStreamEntries(dict, content)) objects.set(n, body);
+    }
+    if (/\bBT\b/.test(content) && /T[jJ]\b|'|"/.test(content)) parts.push({ num, content });
+  }
+  const fontsFor = fontsByStream(objects, streams);
+  return parts.map(p => contentText(p.content, fontsFor(p.num))).join('\n');
+}
@@ -0,0 +1,49 @@
+import type { AgentState } from '../agentState';
+import type { ValidationIssue } from '../responseSchema';
+
+type Org = NonNullable<AgentState['org']>;
+
+const ORG_FIELDS = ['name', 'country', 'industry', 'size'] as const;
+
+const normalise = (s: string) => s.toLowerCase().normalize('NFKC').replace(/\s+/g, ' ');
+
+/**
+ * Whether `value` is backed by the evidence: either verbatim, or every significant word
+ * appears (numbers exactly, words by their first five letters, so "Latvian" backs
+ * "Latvia").
+ */
+function supported(value: string, haystack: string): boolean {
+  const v = normalise(value).trim();
+  if (!v || haystack.includes(v)) return true;
+  const words = (v.match(/[a-z0-9\u00c0-\u024f]+/g) || []).filter(w => w.length >= 3 || /^\d+$/.test(w));
+  if (words.length === 0) return true;
+  return words.every(w => haystack.includes(/^\d+$/.test(w) ? w : w.slice(0, 5)));
+}
+
+/**
+ * Drops organisation facts the model proposed but nothing supports. Evidence is what the
+ * user said or uploaded plus the research sources fetched this turn, so org details can
+ * only come from the user or a cited lookup, never from the model's own recall.
+ */
+export function groundOrgUpdates(
+  org: Org | undefined,
+  evidence: string[]
+): { org: Org | undefined; issues: ValidationIssue[] } {
+  if (!org) return { org, issues: [] };
+  const haystack = normalise(evidence.join('\n'));
+  const kept: Org = {};
+  const issues: ValidationIssue[] = [];
+  for (const field of ORG_FIELDS) {
+    const value = org[field];
+    if (value === undefined) continue;
+    if (supported(value, haystack)) kept[field] = value;
+    else {
+      issues.push({
+        path: `stateUpdates.org.${field}`,
+        action: 'dropped',
+        message: `"${value}" is not stated by the user or any fetched source`,
+      });
+    }
+  }
+  return { org: Object.keys(kept).length > 0 ? kept : undefined, issues };
+}
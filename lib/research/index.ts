@@ -0,0 +1,88 @@
+import type { LlmToolCall, LlmToolRound } from '../llm/types';
+import { createCompanyRegisterTool, createCorpusSearchTool } from './local';
+import { ResearchSource, ResearchTool } from './types';
+
+export * from './grounding';
+export * from './types';
+
+export const RESEARCH_MODES = ['local', 'off'] as const;
+export type ResearchMode = (typeof RESEARCH_MODES)[number];
+
+/**
+ * Research tools offered to the model, from `RESEARCH_TOOLS` (default `local`). `local`
+ * uses the bundled company register and corpus, or the files in `COMPANY_REGISTER_PATH`
+ * and `RESEARCH_CORPUS_PATH`; `off` disables tool calling.
+ */
+export function resolveResearchTools(): ResearchTool[] {
+  const mode = (process.env.RESEARCH_TOOLS || 'local').trim();
+  switch (mode as ResearchMode) {
+    case 'off':
+      return [];
+    case 'local':
+      return [
+        createCompanyRegisterTool({ path: process.env.COMPANY_REGISTER_PATH }),
+        createCorpusSearchTool({ path: process.env.RESEARCH_CORPUS_PATH }),
+      ];
+    default:
+      throw new Error(`Unknown RESEARCH_TOOLS "${mode}"; expected one of ${RESEARCH_MODES.join(', ')}`);
+  }
+}
+
+const MAX_CALLS_PER_ROUND = 4;
+
+/**
+ * Executes one round of tool calls. Hits are numbered as sources (S1, S2, ...) and appended
+ * to `sources`; a hit already fetched this turn keeps its number. Failures are reported
+ * back to the model as an error output rather than aborting the turn.
+ */
+export async function runToolCalls(
+  calls: LlmToolCall[],
+  tools: ResearchTool[],
+  sources: ResearchSource[],
+  opts: { signal?: AbortSignal } = {}
+): Promise<LlmToolRound> {
+  const results: LlmToolRound['results'] = [];
+  for (const [i, call] of calls.entries()) {
+    if (i >= MAX_CALLS_PER_ROUND) {
+      results.push({ callId: call.id, output: JSON.stringify({ error: 'Too many tool calls in one round' }) });
+      continue;
+    }
+    const tool = tools.find(t => t.definition.name === call.name);
+    try {
+      if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+      let args: unknown;
+      try {
+        args = JSON.parse(call.arguments || '{}');
+      } catch {
+        throw new Error('Arguments are not valid JSON');
+      }
+      if (!args || typeof args !== 'object' || Array.isArray(args)) throw new Error('Arguments must be an object');
+
+      const hits = await tool.run(args as Record<string, unknown>, opts);
+      const numbered = hits.map(hit => {
+        const existing = sources.find(s => s.title === hit.title && s.url === hit.url);
+        if (existing) return existing;
+        const source: ResearchSource = {
+          ...hit,
+          id: `S${sources.length + 1}`,
+          tool: call.name,
+          retrievedAt: new Date().toISOString(),
+        };
+        sources.push(source);
+        return source;
+      });
+      results.push({
+        callId: call.id,
+        output: JSON.stringify(
+          numbered.length > 0
+            ? { results: numbered.map(s => ({ sourceId: s.id, title: s.title, url: s.url, snippet: s.snippet })) }
+            : { results: [], note: 'No matches. Do not guess; ask the user instead.' }
+        ),
+      });
+    } catch (error: any) {
+      if (opts.signal?.aborted) throw error;
+      results.push({ callId: call.id, output: JSON.stringify({ error: error?.message || 'Tool failed' }) });
+    }
+  }
+  return { calls, results };
+}
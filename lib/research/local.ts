@@ -0,0 +1,131 @@
+import fs from 'fs';
+import corpusData from '../data/research-corpus.json';
+import registerData from '../data/company-register.json';
+import { rankTexts } from '../documents';
+import { ResearchHit, ResearchTool, ResearchToolError } from './types';
+
+type RegisterCompany = {
+  id: string;
+  name: string;
+  aliases?: string[];
+  registrationNumber: string;
+  country: string;
+  industry: string;
+  employees?: number;
+  website?: string;
+  url: string;
+};
+
+type CorpusEntry = {
+  id: string;
+  title: string;
+  url: string;
+  publishedAt?: string;
+  text: string;
+};
+
+function loadJson<T>(path: string | undefined, fallback: T, key: string): T {
+  if (!path) return fallback;
+  const parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  if (!Array.isArray(parsed?.[key])) throw new Error(`${path} must contain a "${key}" array`);
+  return parsed[key] as T;
+}
+
+function stringArg(args: Record<string, unknown>, key: string, required: boolean): string | undefined {
+  const value = args[key];
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (required) throw new ResearchToolError(`"${key}" must be a non-empty string`);
+  return undefined;
+}
+
+const LEGAL_FORMS = /\b(sia|as|gmbh|ag|ltd|limited|plc|sas|sa|sarl|sp\.? z\.? ?o\.? ?o\.?|oy|ab|bv|nv|inc|llc)\b\.?/g;
+
+// Lower-cased, accents and legal-form suffixes removed, so "Wisla Finanse" finds "Wisła Finanse sp. z o.o.".
+const normaliseName = (s: string) =>
+  s
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l')
+    .replace(LEGAL_FORMS, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/** Company register lookup backed by a JSON file (`COMPANY_REGISTER_PATH`, or the bundled fixture). */
+export function createCompanyRegisterTool(opts: { path?: string } = {}): ResearchTool {
+  const companies = loadJson<RegisterCompany[]>(opts.path, registerData.companies, 'companies');
+
+  return {
+    definition: {
+      name: 'lookup_company',
+      description:
+        'Looks up an organisation in the company register. Returns its registered name, country, industry, ' +
+        'employee count and website. Use it before recording any organisation details the user did not state.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Organisation name as the user wrote it' },
+          country: { type: 'string', description: 'Country, if known, to narrow the search' },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      },
+    },
+
+    async run(args): Promise<ResearchHit[]> {
+      const query = normaliseName(stringArg(args, 'name', true)!);
+      const country = stringArg(args, 'country', false)?.toLowerCase();
+      if (!query) return [];
+      return companies
+        .filter(c => !country || c.country.toLowerCase() === country)
+        .filter(c => [c.name, ...(c.aliases || [])].map(normaliseName).some(n => n.includes(query) || query.includes(n)))
+        .slice(0, 3)
+        .map(c => ({
+          title: `Company register: ${c.name}`,
+          url: c.url,
+          snippet: [
+            `${c.name}, registration no. ${c.registrationNumber}, ${c.country}.`,
+            `Industry: ${c.industry}.`,
+            c.employees !== undefined ? `Employees: ${c.employees}.` : '',
+            c.website ? `Website: ${c.website}.` : '',
+          ].filter(Boolean).join(' '),
+        }));
+    },
+  };
+}
+
+const SNIPPET_CHARS = 600;
+
+/** Web search stand-in over a local corpus (`RESEARCH_CORPUS_PATH`, or the bundled fixture). */
+export function createCorpusSearchTool(opts: { path?: string } = {}): ResearchTool {
+  const entries = loadJson<CorpusEntry[]>(opts.path, corpusData.entries, 'entries');
+
+  return {
+    definition: {
+      name: 'search_web',
+      description:
+        'Searches public web pages and news for information about an organisation, its products and its use of AI.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'Search query' } },
+        required: ['query'],
+        additionalProperties: false,
+      },
+    },
+
+    async run(args): Promise<ResearchHit[]> {
+      const query = stringArg(args, 'query', true)!;
+      const scores = rankTexts(entries.map(e => `${e.title}\n${e.text}`), query);
+      return entries
+        .map((entry, i) => ({ entry, score: scores[i] }))
+        .filter(s => s.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 3)
+        .map(({ entry }) => ({
+          title: entry.publishedAt ? `${entry.title} (${entry.publishedAt})` : entry.title,
+          url: entry.url,
+          snippet: entry.text.length > SNIPPET_CHARS ? `${entry.text.slice(0, SNIPPET_CHARS)}…` : entry.text,
+        }));
+    },
+  };
+}
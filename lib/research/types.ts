@@ -0,0 +1,32 @@
+import type { LlmToolDefinition } from '../llm/types';
+
+/** One result from a research tool, before it is numbered for citation. */
+export type ResearchHit = {
+  title: string;
+  url?: string;
+  snippet: string;
+};
+
+/** A fetched source as shown to the model and returned next to the reply. */
+export type ResearchSource = ResearchHit & {
+  // Citation marker the model uses, e.g. "S1".
+  id: string;
+  tool: string;
+  retrievedAt: string;
+};
+
+/**
+ * A lookup the model can call during a chat turn. Implementations may query a company
+ * register, a search API or a local corpus; they only return hits and never touch state.
+ */
+export interface ResearchTool {
+  readonly definition: LlmToolDefinition;
+  run(args: Record<string, unknown>, opts?: { signal?: AbortSignal }): Promise<ResearchHit[]>;
+}
+
+export class ResearchToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResearchToolError';
+  }
+}
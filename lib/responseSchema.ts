@@ -0,0 +1,253 @@
+import { AgentState, sanitizeStateUpdates } from './agentState';
+
+/**
+ * Contract for the fenced JSON block the model appends to every reply. Limits mirror
+ * the rules in the system prompt; anything outside them is dropped or corrected and
+ * reported as a `ValidationIssue`.
+ */
+export const CONTRACT_LIMITS = {
+  guidance: 6,
+  suggestions: 4,
+  questions: 3,
+  examples: 3,
+  maxDueInDays: 90,
+} as const;
+
+export const RISK_LEVELS = ['minimal', 'limited', 'high', 'prohibited', 'unknown'] as const;
+export const ROLES = ['provider', 'deployer', 'importer', 'distributor', 'manufacturer', 'other'] as const;
+export type Role = (typeof ROLES)[number];
+
+export type RoadmapTask = {
+  title: string;
+  owner?: string;
+  dueInDays?: number;
+  acceptance?: string;
+};
+
+export type RoadmapEntry = {
+  useCaseId: string;
+  useCaseName?: string;
+  risk?: { level: (typeof RISK_LEVELS)[number]; rationale?: string };
+  tasks: RoadmapTask[];
+};
+
+export type ChatContract = {
+  guidance?: string[];
+  suggestions?: string[];
+  questions?: string[];
+  examples?: string[];
+  roadmap?: RoadmapEntry[];
+  stateUpdates?: Partial<AgentState>;
+};
+
+export type ValidationIssue = {
+  path: string;
+  action: 'dropped' | 'corrected';
+  message: string;
+};
+
+const STRING_LIST_FIELDS = ['guidance', 'suggestions', 'questions', 'examples'] as const;
+const KNOWN_FIELDS = new Set<string>([...STRING_LIST_FIELDS, 'roadmap', 'stateUpdates']);
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+function stringList(value: unknown, path: string, limit: number | undefined, issues: ValidationIssue[]) {
+  if (!Array.isArray(value)) {
+    issues.push({ path, action: 'dropped', message: 'expected an array of strings' });
+    return undefined;
+  }
+  const out: string[] = [];
+  value.forEach((item, i) => {
+    if (typeof item === 'string' && item.trim()) out.push(item);
+    else issues.push({ path: `${path}[${i}]`, action: 'dropped', message: 'expected a non-empty string' });
+  });
+  if (limit !== undefined && out.length > limit) {
+    issues.push({ path, action: 'corrected', message: `truncated from ${out.length} to ${limit} items` });
+    return out.slice(0, limit);
+  }
+  return out;
+}
+
+function optionalString(obj: Record<string, any>, key: string, path: string, issues: ValidationIssue[]) {
+  const v = obj[key];
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === 'string') return v;
+  if (typeof v === 'number' || typeof v === 'boolean') {
+    issues.push({ path: `${path}.${key}`, action: 'corrected', message: 'converted to string' });
+    return String(v);
+  }
+  issues.push({ path: `${path}.${key}`, action: 'dropped', message: 'expected a string' });
+  return undefined;
+}
+
+function validateTask(t: unknown, path: string, issues: ValidationIssue[]): RoadmapTask | undefined {
+  if (!isObject(t)) {
+    issues.push({ path, action: 'dropped', message: 'expected a task object' });
+    return undefined;
+  }
+  const title = optionalString(t, 'title', path, issues);
+  if (!title?.trim()) {
+    issues.push({ path, action: 'dropped', message: 'task has no title' });
+    return undefined;
+  }
+
+  let dueInDays: number | undefined;
+  if (t.dueInDays !== undefined && t.dueInDays !== null) {
+    const n = typeof t.dueInDays === 'string' ? Number(t.dueInDays) : t.dueInDays;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) {
+      issues.push({ path: `${path}.dueInDays`, action: 'dropped', message: 'expected a non-negative number' });
+    } else {
+      dueInDays = Math.round(n);
+      if (typeof t.dueInDays === 'string' || dueInDays !== n) {
+        issues.push({ path: `${path}.dueInDays`, action: 'corrected', message: 'converted to a whole number' });
+      }
+      if (dueInDays > CONTRACT_LIMITS.maxDueInDays) {
+        issues.push({
+          path: `${path}.dueInDays`,
+          action: 'corrected',
+          message: `capped from ${dueInDays} to ${CONTRACT_LIMITS.maxDueInDays}`,
+        });
+        dueInDays = CONTRACT_LIMITS.maxDueInDays;
+      }
+    }
+  }
+
+  return {
+    title,
+    owner: optionalString(t, 'owner', path, issues),
+    dueInDays,
+    acceptance: optionalString(t, 'acceptance', path, issues),
+  };
+}
+
+function validateRoadmap(value: unknown, issues: ValidationIssue[]): RoadmapEntry[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'roadmap', action: 'dropped', message: 'expected an array' });
+    return undefined;
+  }
+
+  const out: RoadmapEntry[] = [];
+  value.forEach((entry, i) => {
+    const path = `roadmap[${i}]`;
+    if (!isObject(entry)) {
+      issues.push({ path, action: 'dropped', message: 'expected a roadmap object' });
+      return;
+    }
+    const useCaseId = optionalString(entry, 'useCaseId', path, issues);
+    if (!useCaseId?.trim()) {
+      issues.push({ path, action: 'dropped', message: 'roadmap entry has no useCaseId' });
+      return;
+    }
+
+    let risk: RoadmapEntry['risk'];
+    if (entry.risk !== undefined) {
+      const level = isObject(entry.risk) ? entry.risk.level : entry.risk;
+      if ((RISK_LEVELS as readonly string[]).includes(level)) {
+        risk = {
+          level,
+          rationale: isObject(entry.risk) ? optionalString(entry.risk, 'rationale', `${path}.risk`, issues) : undefined,
+        };
+        if (!isObject(entry.risk)) {
+          issues.push({ path: `${path}.risk`, action: 'corrected', message: 'wrapped bare risk level in an object' });
+        }
+      } else {
+        issues.push({ path: `${path}.risk`, action: 'dropped', message: `risk level must be one of ${RISK_LEVELS.join(', ')}` });
+      }
+    }
+
+    const tasks: RoadmapTask[] = [];
+    if (Array.isArray(entry.tasks)) {
+      entry.tasks.forEach((t: unknown, j: number) => {
+        const task = validateTask(t, `${path}.tasks[${j}]`, issues);
+        if (task) tasks.push(task);
+      });
+    } else {
+      issues.push({ path: `${path}.tasks`, action: 'dropped', message: 'expected an array of tasks' });
+    }
+
+    out.push({ useCaseId, useCaseName: optionalString(entry, 'useCaseName', path, issues), risk, tasks });
+  });
+  return out;
+}
+
+function validateStateUpdates(value: unknown, issues: ValidationIssue[]): Partial<AgentState> | undefined {
+  if (!isObject(value)) {
+    issues.push({ path: 'stateUpdates', action: 'dropped', message: 'expected an object' });
+    return undefined;
+  }
+  const checked: Record<string, any> = { ...value };
+
+  if (value.roles !== undefined) {
+    if (Array.isArray(value.roles)) {
+      const roles: string[] = [];
+      value.roles.forEach((r: unknown, i: number) => {
+        const path = `stateUpdates.roles[${i}]`;
+        const lower = typeof r === 'string' ? r.trim().toLowerCase() : '';
+        if (!(ROLES as readonly string[]).includes(lower)) {
+          issues.push({ path, action: 'dropped', message: `role must be one of ${ROLES.join(', ')}` });
+          return;
+        }
+        if (lower !== r) issues.push({ path, action: 'corrected', message: 'normalised to lower case' });
+        roles.push(lower);
+      });
+      // Keep the stored roles when every proposed role was invalid.
+      if (roles.length > 0 || value.roles.length === 0) checked.roles = roles;
+      else delete checked.roles;
+    } else {
+      issues.push({ path: 'stateUpdates.roles', action: 'dropped', message: 'expected an array of roles' });
+      delete checked.roles;
+    }
+  }
+
+  if (value.useCases !== undefined) {
+    if (Array.isArray(value.useCases)) {
+      checked.useCases = value.useCases.filter((u: unknown, i: number) => {
+        const path = `stateUpdates.useCases[${i}]`;
+        if (!isObject(u)) {
+          issues.push({ path, action: 'dropped', message: 'expected a use case object' });
+          return false;
+        }
+        if (!u.id) issues.push({ path: `${path}.id`, action: 'corrected', message: 'missing id was generated' });
+        if (u.risk !== undefined && !(RISK_LEVELS as readonly string[]).includes(u.risk)) {
+          issues.push({ path: `${path}.risk`, action: 'dropped', message: `risk must be one of ${RISK_LEVELS.join(', ')}` });
+        }
+        for (const key of ['data', 'subjects', 'jurisdictions']) {
+          if (u[key] !== undefined && !Array.isArray(u[key])) {
+            issues.push({ path: `${path}.${key}`, action: 'dropped', message: 'expected an array of strings' });
+          }
+        }
+        return true;
+      });
+    } else {
+      issues.push({ path: 'stateUpdates.useCases', action: 'dropped', message: 'expected an array of use cases' });
+      delete checked.useCases;
+    }
+  }
+
+  return sanitizeStateUpdates(checked);
+}
+
+/**
+ * Validates a parsed JSON block against the contract. Never throws: invalid parts are
+ * dropped or corrected and every such change is listed in `issues`.
+ */
+export function validateChatContract(input: unknown): { value: ChatContract; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(input)) {
+    issues.push({ path: '$', action: 'dropped', message: 'top-level JSON must be an object' });
+    return { value: {}, issues };
+  }
+
+  const value: ChatContract = {};
+  for (const key of Object.keys(input)) {
+    if (!KNOWN_FIELDS.has(key)) issues.push({ path: key, action: 'dropped', message: 'unknown field' });
+  }
+  for (const key of STRING_LIST_FIELDS) {
+    if (input[key] !== undefined) value[key] = stringList(input[key], key, CONTRACT_LIMITS[key], issues);
+  }
+  if (input.roadmap !== undefined) value.roadmap = validateRoadmap(input.roadmap, issues);
+  if (input.stateUpdates !== undefined) value.stateUpdates = validateStateUpdates(input.stateUpdates, issues);
+
+  return { value, issues };
+}
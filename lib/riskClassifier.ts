@@ -0,0 +1,273 @@
+export type RiskLevel = 'minimal' | 'limited' | 'high' | 'prohibited' | 'unknown';
+
+export type ClassifiableUseCase = {
+  id?: string;
+  name?: string;
+  description?: string;
+  process?: string;
+  data?: string[];
+  subjects?: string[];
+  risk?: RiskLevel;
+};
+
+export type RiskRule = {
+  id: string;
+  level: Exclude<RiskLevel, 'unknown' | 'minimal'>;
+  article: string;
+  label: string;
+  // Every group must match at least once in the use-case text for the rule to fire.
+  all: RegExp[];
+};
+
+export type RiskClassification = {
+  level: RiskLevel;
+  ruleId?: string;
+  rule?: string;
+  article?: string;
+  matched: string[];
+  // Lower-severity rules that also fired, e.g. Article 50 duties on top of a high-risk match.
+  alsoMatched: Array<{ ruleId: string; level: RiskLevel; article: string }>;
+  modelRisk?: RiskLevel;
+  conflict: boolean;
+};
+
+const SEVERITY: Record<RiskLevel, number> = {
+  unknown: 0,
+  minimal: 1,
+  limited: 2,
+  high: 3,
+  prohibited: 4,
+};
+
+const WORKPLACE_OR_EDUCATION = /\b(workplace|employees?|staff|workers?|school|students?|pupils?|classroom|education(al)? institution)\b/i;
+const BIOMETRIC = /\b(biometric|facial recognition|face recognition|fingerprint|iris scan|voice ?print|gait)\b/i;
+// Annex I products only count with a safety role: a stock forecast for a toy shop is not a
+// safety component, a vision system that stops a machine is. Medical and in-vitro diagnostic
+// devices are regulated as a whole, so naming one is enough.
+const ANNEX_I_PRODUCT = /\b(safety component|medical devices?|in[- ]vitro diagnostic|machinery|machines?|toys?|lifts?|lift control|elevators?|pressure equipment|radio equipment|personal protective equipment|gas appliances?|cableways?|recreational craft|civil aviation|aircraft|motor vehicles?|autonomous (driving|vehicles?)|agricultural vehicles?|marine equipment|rail(way)? systems?)\b/i;
+const SAFETY_ROLE = /\b(medical devices?|in[- ]vitro diagnostic|safety[- ](components?|functions?|critical|systems?)|collision avoidance|emergency (stop\w*|braking)|obstacle detection|hazard detection|conformity assessment|ce marking|autonomous (driving|vehicles?)|self[- ]driving)\b/i;
+
+export const RISK_RULES: RiskRule[] = [
+  // Article 5 — prohibited practices
+  {
+    id: 'art5-subliminal',
+    level: 'prohibited',
+    article: 'Art. 5(1)(a)',
+    label: 'Subliminal, manipulative or deceptive techniques distorting behaviour',
+    all: [/\b(subliminal|manipulative (techniques?|design)|behaviou?ral manipulation|deceptive techniques?|dark patterns?)\b/i],
+  },
+  {
+    id: 'art5-vulnerabilities',
+    level: 'prohibited',
+    article: 'Art. 5(1)(b)',
+    label: 'Exploitation of vulnerabilities due to age, disability or social or economic situation',
+    all: [/\b(exploit\w*)\b/i, /\b(children|minors|elderly|disabilit\w*|financial distress|socio-?economic situation)\b/i],
+  },
+  {
+    id: 'art5-social-scoring',
+    level: 'prohibited',
+    article: 'Art. 5(1)(c)',
+    label: 'Social scoring leading to detrimental or unfavourable treatment',
+    all: [/\b(social scor\w*|social credit|trustworthiness scor\w*)\b/i],
+  },
+  {
+    id: 'art5-predictive-policing',
+    level: 'prohibited',
+    article: 'Art. 5(1)(d)',
+    label: 'Predicting criminal offences based solely on profiling or personality traits',
+    all: [/\b(predict\w*|risk assess\w*)\b/i, /\b(crim\w*|offen[cs]es?|reoffend\w*)\b/i, /\b(profil\w*|personality)\b/i],
+  },
+  {
+    id: 'art5-face-scraping',
+    level: 'prohibited',
+    article: 'Art. 5(1)(e)',
+    label: 'Untargeted scraping of facial images to build recognition databases',
+    all: [/\b(scrap\w*)\b/i, /\b(facial|face|faces|cctv)\b/i],
+  },
+  {
+    id: 'art5-emotion-workplace',
+    level: 'prohibited',
+    article: 'Art. 5(1)(f)',
+    label: 'Emotion recognition in the workplace or in education institutions',
+    all: [/\b(emotion(al)? (recognition|detection|analysis)|sentiment of (employees|staff|students)|mood detection)\b/i, WORKPLACE_OR_EDUCATION],
+  },
+  {
+    id: 'art5-biometric-categorisation',
+    level: 'prohibited',
+    article: 'Art. 5(1)(g)',
+    label: 'Biometric categorisation inferring race, political opinions, religion or sexual orientation',
+    all: [BIOMETRIC, /\b(race|ethnic\w*|political (opinions?|views?)|religio\w*|sexual orientation|trade union)\b/i],
+  },
+  {
+    id: 'art5-realtime-rbi',
+    level: 'prohibited',
+    article: 'Art. 5(1)(h)',
+    label: 'Real-time remote biometric identification in publicly accessible spaces for law enforcement',
+    all: [/\b(real[- ]time)\b/i, BIOMETRIC, /\b(public(ly accessible)? (spaces?|places?|areas?)|streets?|law enforcement|police)\b/i],
+  },
+
+  // Annex I — safety components of regulated products (Art. 6(1))
+  {
+    id: 'annex1-product-safety',
+    level: 'high',
+    article: 'Art. 6(1), Annex I',
+    label: 'Safety component of a product covered by Union harmonisation legislation',
+    all: [ANNEX_I_PRODUCT, SAFETY_ROLE],
+  },
+
+  // Annex III — high-risk areas (Art. 6(2))
+  {
+    id: 'annex3-biometrics',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(1)',
+    label: 'Remote biometric identification, biometric categorisation or emotion recognition',
+    all: [/\b(remote biometric|biometric identification|biometric categori[sz]ation|emotion(al)? (recognition|detection)|facial recognition|face recognition)\b/i],
+  },
+  {
+    id: 'annex3-critical-infrastructure',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(2)',
+    label: 'Safety component in critical infrastructure, road traffic or utilities supply',
+    all: [/\b(critical infrastructure|road traffic|water supply|gas supply|heating supply|electricity (supply|grid)|power grid|digital infrastructure)\b/i],
+  },
+  {
+    id: 'annex3-education',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(3)',
+    label: 'Access to education, evaluating learning outcomes or proctoring',
+    // Grading or exams only count when learners are assessed, not for timber grades or eye exams.
+    all: [/\b((school|university|college|student) admissions?|admissions? decisions?|admission of (students|pupils|applicants)|(grad|mark|scor|assess|evaluat)\w* (\w+ ){0,3}?(students?|pupils?|learners?|essays?|homework|coursework|exam(ination)? (answers|papers|scripts|results))|(exam(ination)?|test) (proctoring|grading|marking|scoring)|proctor\w*|learning outcomes?|student assessment|vocational training)\b/i],
+  },
+  {
+    id: 'annex3-employment',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(4)',
+    label: 'Recruitment, selection, promotion, termination or monitoring of workers',
+    // Mentioning hiring or CVs is not enough; the system has to sort or judge people, as in
+    // "screening CVs" or "ranks job applicants".
+    all: [/\b((screen|filter|shortlist|rank|scor|sort|evaluat|assess|select|reject)\w* (\w+ ){0,3}?(cvs?|r[ée]sum[ée]s?|(job )?(applicants?|candidates?|applications?))|(cv|r[ée]sum[ée]|applicant|candidate) (screening|ranking|scoring|shortlisting|selection)|(hiring|recruitment) decisions?|promotion decisions?|terminat\w* of (employment|contracts?)|dismissals?|task allocation|performance (monitoring|evaluation)|employee monitoring)\b/i],
+  },
+  {
+    id: 'annex3-essential-services',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(5)',
+    label: 'Access to essential private or public services and benefits',
+    all: [/\b(credit ?scor\w*|creditworthiness|loan (approval|decisions?)|public (benefits?|assistance)|social (benefits?|security)|life insurance|health insurance|emergency (calls?|dispatch)|patient triage)\b/i],
+  },
+  {
+    id: 'annex3-law-enforcement',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(6)',
+    label: 'Use by or on behalf of law enforcement authorities',
+    all: [/\b(law enforcement|police|polygraph|evidence reliability|criminal investigations?)\b/i],
+  },
+  {
+    id: 'annex3-migration',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(7)',
+    label: 'Migration, asylum and border control management',
+    all: [/\b(migrants?|migration (management|authorit\w*|control)|asylum|border control|visa applications?|residence permits?)\b/i],
+  },
+  {
+    id: 'annex3-justice-democracy',
+    level: 'high',
+    article: 'Art. 6(2), Annex III(8)',
+    label: 'Administration of justice and democratic processes',
+    all: [/\b(judicial|court rulings?|dispute resolution|legal interpretation|elections?|referend\w*|voting behaviour)\b/i],
+  },
+
+  // Article 50 — transparency obligations
+  {
+    id: 'art50-interaction',
+    level: 'limited',
+    article: 'Art. 50(1)',
+    label: 'AI system interacting directly with natural persons',
+    all: [/\b(chat ?bots?|virtual assistants?|conversational|voice assistants?|customer support (bot|assistant)|live chat)\b/i],
+  },
+  {
+    id: 'art50-synthetic-content',
+    level: 'limited',
+    article: 'Art. 50(2)',
+    label: 'Generation of synthetic audio, image, video or text content',
+    all: [/\b(generat\w* (content|text|images?|video|audio|copy|articles?)|content generation|text generation|image generation|synthetic (content|media|audio|images?)|generative ai|copywriting)\b/i],
+  },
+  {
+    id: 'art50-emotion-biometric-notice',
+    level: 'limited',
+    article: 'Art. 50(3)',
+    label: 'Emotion recognition or biometric categorisation requiring notice to exposed persons',
+    all: [/\b(emotion(al)? (recognition|detection|analysis)|sentiment detection|biometric categori[sz]ation)\b/i],
+  },
+  {
+    id: 'art50-deepfake',
+    level: 'limited',
+    article: 'Art. 50(4)',
+    label: 'Deep fake image, audio or video content',
+    all: [/\b(deep ?fakes?|face swap\w*|voice clon\w*|synthetic (avatars?|voices?))\b/i],
+  },
+];
+
+function classifiableText(u: ClassifiableUseCase): string {
+  return [
+    u.description,
+    u.process,
+    ...(u.data || []),
+    ...(u.subjects || []),
+  ]
+    .filter((x): x is string => typeof x === 'string' && x.trim().length > 0)
+    .join('\n');
+}
+
+function matchRule(rule: RiskRule, text: string): string[] | null {
+  const hits: string[] = [];
+  for (const re of rule.all) {
+    const m = text.match(re);
+    if (!m) return null;
+    hits.push(m[0]);
+  }
+  return hits;
+}
+
+/**
+ * Rule-based classification of a single use case. Rules are evaluated against the
+ * description, process, data categories and subjects; the most severe match wins.
+ * Returns `unknown` when there is no text to classify and `minimal` when nothing fires.
+ */
+export function classifyUseCase(u: ClassifiableUseCase): RiskClassification {
+  const text = classifiableText(u);
+  const modelRisk = u.risk;
+
+  if (!text) {
+    return { level: 'unknown', matched: [], alsoMatched: [], modelRisk, conflict: false };
+  }
+
+  const fired: Array<{ rule: RiskRule; hits: string[] }> = [];
+  for (const rule of RISK_RULES) {
+    const hits = matchRule(rule, text);
+    if (hits) fired.push({ rule, hits });
+  }
+
+  // Stable sort keeps catalogue order among rules of equal severity.
+  fired.sort((a, b) => SEVERITY[b.rule.level] - SEVERITY[a.rule.level]);
+  const top = fired[0];
+
+  const level: RiskLevel = top ? top.rule.level : 'minimal';
+  const conflict = !!modelRisk && modelRisk !== 'unknown' && modelRisk !== level;
+
+  return {
+    level,
+    ruleId: top?.rule.id,
+    rule: top ? top.rule.label : 'No Article 5, Annex I, Annex III or Article 50 trigger found',
+    article: top?.rule.article,
+    matched: top ? Array.from(new Set(top.hits)) : [],
+    alsoMatched: fired.slice(1).map(f => ({ ruleId: f.rule.id, level: f.rule.level, article: f.rule.article })),
+    modelRisk,
+    conflict,
+  };
+}
+
+export function classifyUseCases<T extends ClassifiableUseCase & { id: string }>(
+  useCases: T[]
+): Array<RiskClassification & { useCaseId: string }> {
+  return useCases.map(u => ({ useCaseId: u.id, ...classifyUseCase(u) }));
+}
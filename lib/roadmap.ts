@@ -0,0 +1,153 @@
+import { RISK_LEVELS, RoadmapEntry } from './responseSchema';
+import { daysUntil, MILESTONE_IDS, MilestoneId, TaskDeadline } from './timeline';
+
+export const TASK_STATUSES = ['todo', 'in-progress', 'done', 'blocked'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export type TrackedTask = {
+  id: string;
+  title: string;
+  owner?: string;
+  // Absolute due date (YYYY-MM-DD), fixed when the task is first created.
+  dueDate?: string;
+  // Legal milestone the due date was capped to when the task was created.
+  legalDeadline?: MilestoneId;
+  acceptance?: string;
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt?: string;
+};
+
+export type TrackedRoadmapEntry = {
+  useCaseId: string;
+  useCaseName?: string;
+  risk?: RoadmapEntry['risk'];
+  tasks: TrackedTask[];
+};
+
+export function addDays(date: Date, days: number): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * A new task's due date: `dueInDays` from now, but never after the use case's legal
+ * deadline. A deadline that has passed makes the task due today.
+ */
+function cappedDueDate(dueInDays: number | undefined, deadline: TaskDeadline | undefined, now: Date): string | undefined {
+  const due = typeof dueInDays === 'number' ? addDays(now, dueInDays) : undefined;
+  if (!deadline) return due;
+  const today = addDays(now, 0);
+  const latest = deadline.date > today ? deadline.date : today;
+  return due && due <= latest ? due : latest;
+}
+
+/** Lowers the model's `dueInDays` where a task would fall after its use case's legal deadline. */
+export function capRoadmapDays(
+  roadmap: RoadmapEntry[],
+  deadlines: Record<string, TaskDeadline>,
+  now: Date = new Date()
+): RoadmapEntry[] {
+  return roadmap.map(entry => {
+    const deadline = deadlines[entry.useCaseId];
+    if (!deadline) return entry;
+    const max = Math.max(0, daysUntil(deadline.date, now));
+    return {
+      ...entry,
+      tasks: entry.tasks.map(t => (typeof t.dueInDays === 'number' && t.dueInDays > max ? { ...t, dueInDays: max } : t)),
+    };
+  });
+}
+
+const normaliseTitle = (t: string) => t.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const slug = (s: string) =>
+  s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'task';
+
+function taskId(useCaseId: string, title: string, taken: Set<string>): string {
+  const base = `task-${slug(useCaseId)}-${slug(title)}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Merges a roadmap proposed by the model into the tracked roadmap. Entries are keyed by
+ * `useCaseId` and tasks by title; existing tasks keep their status, owner and due date so
+ * manual edits survive later replies. New tasks get an absolute due date from `dueInDays`,
+ * capped at the use case's entry in `deadlines` (see `taskDeadlines`).
+ */
+export function mergeRoadmap(
+  existing: TrackedRoadmapEntry[] | undefined,
+  incoming: RoadmapEntry[] | undefined,
+  now: Date = new Date(),
+  deadlines: Record<string, TaskDeadline> = {}
+): TrackedRoadmapEntry[] {
+  const out = (existing || []).map(e => ({ ...e, tasks: [...e.tasks] }));
+  if (!incoming) return out;
+
+  const taken = new Set(out.flatMap(e => e.tasks.map(t => t.id)));
+  const createdAt = now.toISOString();
+
+  for (const entry of incoming) {
+    let target = out.find(e => e.useCaseId === entry.useCaseId);
+    if (!target) {
+      target = { useCaseId: entry.useCaseId, tasks: [] };
+      out.push(target);
+    }
+    if (entry.useCaseName) target.useCaseName = entry.useCaseName;
+    if (entry.risk) target.risk = entry.risk;
+    const deadline = deadlines[entry.useCaseId];
+
+    for (const task of entry.tasks) {
+      const knownIdx = target.tasks.findIndex(t => normaliseTitle(t.title) === normaliseTitle(task.title));
+      if (knownIdx >= 0) {
+        const known = target.tasks[knownIdx];
+        if (!known.acceptance && task.acceptance) target.tasks[knownIdx] = { ...known, acceptance: task.acceptance };
+        continue;
+      }
+      target.tasks.push({
+        id: taskId(entry.useCaseId, task.title, taken),
+        title: task.title,
+        owner: task.owner,
+        dueDate: cappedDueDate(task.dueInDays, deadline, now),
+        ...(deadline ? { legalDeadline: deadline.milestoneId } : {}),
+        acceptance: task.acceptance,
+        status: 'todo',
+        createdAt,
+      });
+    }
+  }
+  return out;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Coerces client-supplied roadmap data into the tracked shape, dropping anything invalid. */
+export function sanitizeRoadmap(input: any): TrackedRoadmapEntry[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((e: any) => e && typeof e.useCaseId === 'string' && e.useCaseId)
+    .map((e: any) => ({
+      useCaseId: e.useCaseId,
+      useCaseName: typeof e.useCaseName === 'string' ? e.useCaseName : undefined,
+      risk: e.risk && (RISK_LEVELS as readonly string[]).includes(e.risk.level)
+        ? { level: e.risk.level, rationale: typeof e.risk.rationale === 'string' ? e.risk.rationale : undefined }
+        : undefined,
+      tasks: (Array.isArray(e.tasks) ? e.tasks : [])
+        .filter((t: any) => t && typeof t.id === 'string' && typeof t.title === 'string')
+        .map((t: any) => ({
+          id: t.id,
+          title: t.title,
+          owner: typeof t.owner === 'string' ? t.owner : undefined,
+          dueDate: typeof t.dueDate === 'string' && DATE_PATTERN.test(t.dueDate) ? t.dueDate : undefined,
+          legalDeadline: (MILESTONE_IDS as readonly string[]).includes(t.legalDeadline) ? t.legalDeadline : undefined,
+          acceptance: typeof t.acceptance === 'string' ? t.acceptance : undefined,
+          status: (TASK_STATUSES as readonly string[]).includes(t.status) ? t.status : 'todo',
+          createdAt: typeof t.createdAt === 'string' ? t.createdAt : new Date().toISOString(),
+          updatedAt: typeof t.updatedAt === 'string' ? t.updatedAt : undefined,
+        })),
+    }));
+}
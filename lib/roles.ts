@@ -0,0 +1,124 @@
+import type { AgentState } from './agentState';
+import { effectiveRisk } from './obligations';
+import { Role, ROLES } from './responseSchema';
+
+/** Yes/no questions that decide an organisation's role for one AI system. */
+export const ROLE_QUESTIONS = [
+  // Developing a system, or having it developed, and supplying it under your name (Art. 3(3)).
+  { id: 'developed', article: 'Art. 3(3)' },
+  { id: 'ownName', article: 'Art. 25(1)(a)' },
+  { id: 'substantialModification', article: 'Art. 25(1)(b)' },
+  { id: 'purposeChanged', article: 'Art. 25(1)(c)' },
+  // Using the system under your own authority makes you its deployer (Art. 3(4)).
+  { id: 'inUse', article: 'Art. 3(4)' },
+  // Placing a non-EU provider's system on the EU market makes you its importer (Art. 3(6)).
+  { id: 'imports', article: 'Art. 3(6)' },
+  // Making it available further down the supply chain makes you a distributor (Art. 3(7)).
+  { id: 'distributes', article: 'Art. 3(7)' },
+  // An importer is established in the EU, so answering yes here rules that role out.
+  { id: 'outsideEu', article: 'Art. 2(1), Art. 3(6), Art. 22' },
+] as const;
+
+export type RoleQuestionId = (typeof ROLE_QUESTIONS)[number]['id'];
+export type RoleAnswers = Partial<Record<RoleQuestionId, boolean>>;
+
+/** Art. 25(1) points under which a deployer or other third party becomes the provider. */
+export const ARTICLE_25_TRIGGERS = [
+  { id: 'ownName', article: 'Art. 25(1)(a)', reason: 'puts its name or trademark on a high-risk system already on the market' },
+  { id: 'substantialModification', article: 'Art. 25(1)(b)', reason: 'substantially modifies a high-risk system that stays high-risk' },
+  { id: 'purposeChanged', article: 'Art. 25(1)(c)', reason: 'changes the intended purpose of a system so that it becomes high-risk' },
+] as const;
+
+export type Article25Trigger = (typeof ARTICLE_25_TRIGGERS)[number]['id'];
+
+/** Questionnaire answers for one use case; the roles are derived, never stored. */
+export type RoleAssignment = {
+  useCaseId: string;
+  answers: RoleAnswers;
+  updatedAt?: string;
+};
+
+export type RoleDetermination = {
+  roles: Role[];
+  // Non-empty when Art. 25 turns the organisation into the provider of someone else's system.
+  article25: Article25Trigger[];
+  // A provider established outside the EU must appoint an authorised representative (Art. 22).
+  needsAuthorisedRepresentative: boolean;
+};
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+const isQuestionId = (v: unknown): v is RoleQuestionId => ROLE_QUESTIONS.some(q => q.id === v);
+
+const PROVIDER_QUESTIONS: RoleQuestionId[] = ['developed', 'ownName', 'substantialModification', 'purposeChanged'];
+
+/**
+ * Roles for one AI system from the questionnaire. Article 25 only reclassifies for systems
+ * that are (or become) high-risk, so it needs the use case; without one, putting your name
+ * on a system still makes you its provider under Art. 3(3). A role whose questions are all
+ * unanswered keeps the organisation's setting from `orgRoles`, as does `manufacturer`, which
+ * no question covers; `inUse` defaults to yes since the inventory lists systems the
+ * organisation uses.
+ */
+export function determineRoles(answers: RoleAnswers, u?: UseCase, orgRoles: string[] = []): RoleDetermination {
+  const held = new Set(orgRoles.map(r => r.toLowerCase()));
+  const highRisk = !!u && u.inScope !== false && effectiveRisk(u) === 'high';
+  const article25 = answers.developed || !highRisk ? [] : ARTICLE_25_TRIGGERS.filter(t => answers[t.id]).map(t => t.id);
+  const provider = PROVIDER_QUESTIONS.some(id => answers[id] !== undefined)
+    ? !!answers.developed || article25.length > 0 || (!u && !!answers.ownName)
+    : held.has('provider');
+  const decided: Record<Exclude<Role, 'other'>, boolean> = {
+    provider,
+    deployer: answers.inUse !== false,
+    importer: !answers.outsideEu && (answers.imports ?? held.has('importer')),
+    distributor: answers.distributes ?? held.has('distributor'),
+    manufacturer: held.has('manufacturer'),
+  };
+  const roles = ROLES.filter((r): r is Exclude<Role, 'other'> => r !== 'other' && decided[r]);
+  return {
+    roles: roles.length > 0 ? roles : ['other'],
+    article25,
+    needsAuthorisedRepresentative: provider && !!answers.outsideEu,
+  };
+}
+
+export const roleAssignmentFor = (state: AgentState, useCaseId: string) =>
+  (state.roleAssignments || []).find(a => a.useCaseId === useCaseId);
+
+/** Roles for a use case: from its questionnaire when answered, otherwise the organisation's roles. */
+export function rolesForUseCase(state: AgentState, u: UseCase): string[] {
+  const assignment = roleAssignmentFor(state, u.id);
+  if (!assignment) return (state.roles || []).map(r => r.toLowerCase());
+  return determineRoles(assignment.answers, u, state.roles).roles;
+}
+
+/** Every role the organisation holds: the organisation-wide roles plus those of each use case. */
+export function organisationRoles(state: AgentState): string[] {
+  const all = [...(state.roles || []), ...(state.useCases || []).flatMap(u => rolesForUseCase(state, u))];
+  return Array.from(new Set(all.map(r => r.toLowerCase())));
+}
+
+/** Use cases where Art. 25 makes the organisation the provider, with the points that apply. */
+export function article25Reclassifications(state: AgentState): Array<{ useCaseId: string; triggers: Article25Trigger[] }> {
+  return (state.roleAssignments || []).flatMap(a => {
+    const u = (state.useCases || []).find(x => x.id === a.useCaseId);
+    const triggers = u ? determineRoles(a.answers, u).article25 : [];
+    return triggers.length > 0 ? [{ useCaseId: a.useCaseId, triggers }] : [];
+  });
+}
+
+/** Coerces client-supplied role assignments, dropping anything invalid. */
+export function sanitizeRoleAssignments(input: any): RoleAssignment[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((a: any) => a && typeof a.useCaseId === 'string' && a.useCaseId)
+    .map((a: any) => ({
+      useCaseId: a.useCaseId,
+      answers: Object.fromEntries(
+        Object.entries(a.answers && typeof a.answers === 'object' ? a.answers : {}).filter(
+          ([k, v]) => isQuestionId(k) && typeof v === 'boolean'
+        )
+      ) as RoleAnswers,
+      updatedAt: typeof a.updatedAt === 'string' ? a.updatedAt : undefined,
+    }));
+}
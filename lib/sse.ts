@@ -0,0 +1,41 @@
+export type StreamEvent = { event: string; data: any };
+
+/**
+ * Reads a `text/event-stream` response body and invokes `onEvent` for every complete
+ * event. Resolves when the stream ends; rejects if the connection drops mid-stream.
+ */
+export async function readEventStream(res: Response, onEvent: (e: StreamEvent) => void) {
+  if (!res.body) throw new Error('Response has no body');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buffer.indexOf('\n\n')) >= 0) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of chunk.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+      }
+      if (dataLines.length === 0) continue;
+
+      let data: any;
+      try {
+        data = JSON.parse(dataLines.join('\n'));
+      } catch {
+        // Ignore malformed events rather than aborting the whole stream.
+        continue;
+      }
+      onEvent({ event, data });
+    }
+  }
+}
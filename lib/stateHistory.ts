@@ -0,0 +1,165 @@
+import type { AgentState } from './agentState';
+
+export const CHANGE_SOURCES = ['model', 'manual', 'import', 'undo', 'restore'] as const;
+export type ChangeSource = (typeof CHANGE_SOURCES)[number];
+
+/**
+ * One changed field. Collections are addressed by id rather than index, e.g.
+ * `['useCases', 'uc-1', 'risk']` or `['roadmap', 'uc-1', 'tasks', 'task-x', 'status']`.
+ * A missing `before` means the value was added, a missing `after` that it was removed.
+ */
+export type FieldChange = {
+  path: string[];
+  before?: unknown;
+  after?: unknown;
+};
+
+export type StateChange = {
+  id: string;
+  at: string;
+  source: ChangeSource;
+  // The chat message or action that caused the change.
+  message?: string;
+  // Assessment version produced by this change.
+  version: number;
+  diff: FieldChange[];
+};
+
+type Json = any;
+
+// Arrays whose items are matched by an id field instead of by position.
+function collectionKey(path: string[]): string | undefined {
+  if (path.length === 1 && path[0] === 'useCases') return 'id';
+  if (path.length === 1 && path[0] === 'roadmap') return 'useCaseId';
+  if (path.length === 1 && path[0] === 'obligations') return 'id';
+  if (path.length === 1 && path[0] === 'frias') return 'useCaseId';
+  if (path.length === 1 && path[0] === 'transparency') return 'useCaseId';
+  if (path.length === 1 && path[0] === 'roleAssignments') return 'useCaseId';
+  if (path.length === 1 && path[0] === 'vendors') return 'id';
+  if (path.length === 3 && path[0] === 'roadmap' && path[2] === 'tasks') return 'id';
+  return undefined;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, Json> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Round-trip through JSON so `undefined` fields and absent fields compare equal.
+const normalise = <T>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+// Sorts object keys so stored and freshly sanitised copies of a value compare equal.
+function canonical(v: Json): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(',')}]`;
+  if (isPlainObject(v)) {
+    return `{${Object.keys(v).sort().map(k => `${JSON.stringify(k)}:${canonical(v[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(v) ?? 'undefined';
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return canonical(normalise(a)) === canonical(normalise(b));
+}
+
+function diffValue(path: string[], a: Json, b: Json, out: FieldChange[]) {
+  if (deepEqual(a, b)) return;
+
+  const key = collectionKey(path);
+  if (key && (a === undefined || Array.isArray(a)) && (b === undefined || Array.isArray(b))) {
+    const before = new Map<string, Json>((a || []).map((x: Json) => [String(x?.[key]), x]));
+    const after = new Map<string, Json>((b || []).map((x: Json) => [String(x?.[key]), x]));
+    for (const [id, x] of Array.from(before)) diffValue([...path, id], x, after.get(id), out);
+    for (const [id, x] of Array.from(after)) if (!before.has(id)) diffValue([...path, id], undefined, x, out);
+    return;
+  }
+
+  // Added or removed collection items are recorded whole; changed ones field by field.
+  const isItem = path.length > 1 && !!collectionKey(path.slice(0, -1));
+  if (isPlainObject(a) && isPlainObject(b) && (path.length === 0 || path[0] === 'org' || isItem)) {
+    for (const k of Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))) {
+      diffValue([...path, k], a[k], b[k], out);
+    }
+    return;
+  }
+
+  out.push({
+    path,
+    ...(a !== undefined ? { before: normalise(a) } : {}),
+    ...(b !== undefined ? { after: normalise(b) } : {}),
+  });
+}
+
+/** Field-level diff between two states. */
+export function diffState(before: AgentState, after: AgentState): FieldChange[] {
+  const out: FieldChange[] = [];
+  diffValue([], normalise(before) || {}, normalise(after) || {}, out);
+  return out;
+}
+
+export function getAt(state: AgentState, path: string[]): unknown {
+  let node: Json = state;
+  for (let i = 0; i < path.length; i++) {
+    if (node === undefined || node === null) return undefined;
+    const key = collectionKey(path.slice(0, i));
+    node = key && Array.isArray(node) ? node.find((x: Json) => String(x?.[key]) === path[i]) : node[path[i]];
+  }
+  return node;
+}
+
+/** Returns a copy of `state` with the value at `path` replaced (or removed when `undefined`). */
+export function setAt(state: AgentState, path: string[], value: unknown): AgentState {
+  const set = (node: Json, depth: number): Json => {
+    const parentPath = path.slice(0, depth);
+    const segment = path[depth];
+    const last = depth === path.length - 1;
+    const key = collectionKey(parentPath);
+
+    if (key) {
+      const list: Json[] = Array.isArray(node) ? node : [];
+      const idx = list.findIndex(x => String(x?.[key]) === segment);
+      const child = last ? normalise(value) : set(idx >= 0 ? list[idx] : { [key]: segment }, depth + 1);
+      if (child === undefined) return list.filter((_, i) => i !== idx);
+      return idx >= 0 ? list.map((x, i) => (i === idx ? child : x)) : [...list, child];
+    }
+
+    const obj: Json = isPlainObject(node) ? { ...node } : {};
+    const child = last ? normalise(value) : set(obj[segment], depth + 1);
+    if (child === undefined) delete obj[segment];
+    else obj[segment] = child;
+    return obj;
+  };
+  return path.length === 0 ? (normalise(value) as AgentState) : set(state, 0);
+}
+
+/**
+ * Reverts one change. Fields that were modified again since then are left alone and
+ * returned in `skipped`, so an undo never clobbers later work.
+ */
+export function revertChange(state: AgentState, change: StateChange): { state: AgentState; skipped: FieldChange[] } {
+  const skipped: FieldChange[] = [];
+  let next = state;
+  for (const fc of [...change.diff].reverse()) {
+    if (!deepEqual(getAt(next, fc.path), fc.after)) {
+      skipped.push(fc);
+      continue;
+    }
+    next = setAt(next, fc.path, fc.before);
+  }
+  return { state: next, skipped };
+}
+
+/**
+ * Reconstructs the state as it was right after `changeId` by unwinding every later change,
+ * newest first. Relies on the log covering every mutation since logging started.
+ */
+export function stateAt(state: AgentState, changes: StateChange[], changeId: string): AgentState {
+  const idx = changes.findIndex(c => c.id === changeId);
+  if (idx < 0) throw new Error(`Unknown change "${changeId}"`);
+  let next = state;
+  for (const change of changes.slice(idx + 1).reverse()) {
+    for (const fc of [...change.diff].reverse()) next = setAt(next, fc.path, fc.before);
+  }
+  return next;
+}
+
+/** Human-readable path, e.g. `useCases[uc-1].risk`. */
+export function formatPath(path: string[]): string {
+  return path.reduce((s, seg, i) => (collectionKey(path.slice(0, i)) ? `${s}[${seg}]` : s ? `${s}.${seg}` : seg), '');
+}
@@ -0,0 +1,110 @@
+import type { AgentState } from './agentState';
+import { effectiveRisk } from './obligations';
+import { classifyUseCase } from './riskClassifier';
+import { rolesForUseCase } from './roles';
+import { vendorFor } from './vendors';
+
+export const MILESTONE_IDS = ['prohibitions', 'ai-literacy', 'gpai', 'high-risk', 'transparency', 'annex-i'] as const;
+export type MilestoneId = (typeof MILESTONE_IDS)[number];
+
+/** A date from which a group of AI Act obligations applies (Art. 113). */
+export type Milestone = {
+  id: MilestoneId;
+  // YYYY-MM-DD
+  date: string;
+  article: string;
+  title: string;
+  // Organisation-wide milestones are shown on the timeline but do not cap task due dates.
+  scope: 'use-case' | 'organisation';
+};
+
+export const AI_ACT_MILESTONES: Milestone[] = [
+  { id: 'prohibitions', date: '2025-02-02', article: 'Art. 5, Art. 113(a)', title: 'Prohibited AI practices banned', scope: 'use-case' },
+  { id: 'ai-literacy', date: '2025-02-02', article: 'Art. 4, Art. 113(a)', title: 'AI literacy duties apply', scope: 'organisation' },
+  { id: 'gpai', date: '2025-08-02', article: 'Art. 53-55, Art. 113(b)', title: 'Obligations for general-purpose AI model providers', scope: 'use-case' },
+  { id: 'high-risk', date: '2026-08-02', article: 'Art. 6(2), Annex III, Art. 113', title: 'High-risk obligations for Annex III systems', scope: 'use-case' },
+  { id: 'transparency', date: '2026-08-02', article: 'Art. 50, Art. 113', title: 'Transparency obligations apply', scope: 'use-case' },
+  { id: 'annex-i', date: '2027-08-02', article: 'Art. 6(1), Annex I, Art. 113(c)', title: 'High-risk obligations for Annex I products', scope: 'use-case' },
+];
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+// Model names and descriptions that indicate a general-purpose AI model (Art. 3(63)).
+const GPAI_MODEL =
+  /\b(gpt|chatgpt|claude|gemini|llama|mistral|mixtral|command[- ]r|deepseek|qwen|grok|phi-\d|falcon|general[- ]purpose|foundation model|large language model|llm)\b/i;
+
+export const isGpaiModel = (model: string | undefined): boolean => !!model && GPAI_MODEL.test(model);
+
+/** The registry entry's GPAI flag when the use case is linked to one, otherwise a guess from the model name. */
+export const usesGpaiModel = (state: AgentState, u: UseCase): boolean => vendorFor(state, u)?.gpai ?? isGpaiModel(u.model);
+
+/** Whole days from `now` (UTC) to `date`; negative once the date has passed. */
+export function daysUntil(date: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return Math.round((Date.parse(`${date}T00:00:00Z`) - today) / 86_400_000);
+}
+
+/**
+ * Milestones that apply to a use case, earliest first. The tier follows the stricter of
+ * the stored risk label and the rule-based classification, as the obligations do; GPAI
+ * model obligations apply when the organisation is a provider and the model is general-purpose.
+ */
+export function milestonesFor(u: UseCase, roles: string[], gpai: boolean = isGpaiModel(u.model)): Milestone[] {
+  const cls = classifyUseCase(u);
+  const risk = effectiveRisk(u, cls);
+  const fired = [cls.ruleId, ...cls.alsoMatched.map(m => m.ruleId)].filter((id): id is string => !!id);
+  const ids = new Set<MilestoneId>();
+
+  if (risk === 'prohibited') ids.add('prohibitions');
+  if (risk === 'high') {
+    const annexI = fired.includes('annex1-product-safety');
+    if (annexI) ids.add('annex-i');
+    // A high label without an Annex I match gets the earlier Annex III date.
+    if (!annexI || fired.some(id => id.startsWith('annex3-'))) ids.add('high-risk');
+  }
+  if (risk === 'limited' || fired.some(id => id.startsWith('art50-'))) ids.add('transparency');
+  if (gpai && roles.some(r => r.toLowerCase() === 'provider')) ids.add('gpai');
+
+  return AI_ACT_MILESTONES.filter(m => ids.has(m.id));
+}
+
+/** The legal date a use case's roadmap tasks must be done by. */
+export type TaskDeadline = { milestoneId: MilestoneId; date: string };
+
+/**
+ * Deadline per in-scope use case: its earliest applicable milestone. A date that has
+ * already passed still counts, so new tasks for that use case become due straight away.
+ */
+export function taskDeadlines(state: AgentState): Record<string, TaskDeadline> {
+  const out: Record<string, TaskDeadline> = {};
+  for (const u of state.useCases || []) {
+    if (u.inScope === false) continue;
+    const first = milestonesFor(u, rolesForUseCase(state, u), usesGpaiModel(state, u))[0];
+    if (first) out[u.id] = { milestoneId: first.id, date: first.date };
+  }
+  return out;
+}
+
+export type TimelineEntry = {
+  milestone: Milestone;
+  daysLeft: number;
+  // In-scope use cases the milestone applies to; empty for organisation-wide milestones.
+  useCases: Array<{ id: string; name: string }>;
+};
+
+/**
+ * Every milestone with the days left from `now` and the use cases it applies to. Use-case
+ * milestones that apply to none of them are left out.
+ */
+export function buildTimeline(state: AgentState, now: Date = new Date()): TimelineEntry[] {
+  const inScope = (state.useCases || []).filter(u => u.inScope !== false);
+  const applicable = inScope.map(u => ({ u, ids: new Set(milestonesFor(u, rolesForUseCase(state, u), usesGpaiModel(state, u)).map(m => m.id)) }));
+
+  return AI_ACT_MILESTONES.map(milestone => ({
+    milestone,
+    daysLeft: daysUntil(milestone.date, now),
+    useCases: applicable
+      .filter(a => a.ids.has(milestone.id))
+      .map(({ u }) => ({ id: u.id, name: u.name || 'Untitled use case' })),
+  })).filter(e => e.milestone.scope === 'organisation' || e.useCases.length > 0);
+}
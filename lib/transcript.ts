@@ -0,0 +1,110 @@
+import type { Assessment, TranscriptMessage } from './assessmentStore';
+import type { DocumentCitation } from './documents';
+import type { ResearchSource } from './research/types';
+import { ChatContract, validateChatContract } from './responseSchema';
+
+/**
+ * The structured part of one assistant reply, kept with the message so every bubble shows
+ * its own guidance and questions rather than the latest ones.
+ */
+export type MessagePayload = Pick<ChatContract, 'guidance' | 'questions' | 'examples' | 'suggestions' | 'roadmap'> & {
+  citations?: DocumentCitation[];
+  sources?: ResearchSource[];
+};
+
+const nonEmpty = <T>(list: T[] | undefined) => (list && list.length > 0 ? list : undefined);
+
+/** The payload of a chat response; undefined when the reply had no structured fields. */
+export function payloadOf(response: MessagePayload): MessagePayload | undefined {
+  const payload: MessagePayload = {
+    guidance: nonEmpty(response.guidance),
+    questions: nonEmpty(response.questions),
+    examples: nonEmpty(response.examples),
+    suggestions: nonEmpty(response.suggestions),
+    roadmap: nonEmpty(response.roadmap),
+    citations: nonEmpty(response.citations),
+    sources: nonEmpty(response.sources),
+  };
+  const defined = Object.entries(payload).filter(([, v]) => v !== undefined);
+  return defined.length > 0 ? (Object.fromEntries(defined) as MessagePayload) : undefined;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+/** Coerces a client-supplied payload with the same limits as the model's JSON block. */
+export function sanitizePayload(input: any): MessagePayload | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const { guidance, questions, examples, suggestions, roadmap } = input;
+  const { value } = validateChatContract(
+    Object.fromEntries(Object.entries({ guidance, questions, examples, suggestions, roadmap }).filter(([, v]) => v !== undefined))
+  );
+  const citations = Array.isArray(input.citations)
+    ? input.citations
+        .filter((c: any) => c && isString(c.documentId) && isString(c.name))
+        .map((c: any) => ({
+          documentId: c.documentId,
+          name: c.name,
+          chunks: Array.isArray(c.chunks) ? c.chunks.filter(Number.isInteger) : [],
+        }))
+    : undefined;
+  const sources = Array.isArray(input.sources)
+    ? input.sources
+        .filter((s: any) => s && isString(s.id) && isString(s.tool) && isString(s.title) && isString(s.snippet) && isString(s.retrievedAt))
+        .map((s: any) => ({
+          id: s.id,
+          tool: s.tool,
+          title: s.title,
+          ...(isString(s.url) ? { url: s.url } : {}),
+          snippet: s.snippet,
+          retrievedAt: s.retrievedAt,
+        }))
+    : undefined;
+  return payloadOf({ ...value, citations, sources });
+}
+
+const SPEAKERS = { user: 'You', bot: 'Assistant' } as const;
+
+function payloadMarkdown(p: MessagePayload): string[] {
+  const lines: string[] = [];
+  const section = (title: string, items: string[] | undefined, numbered = false) => {
+    if (!items?.length) return;
+    lines.push(`**${title}**`, '', ...items.map((item, i) => `${numbered ? `${i + 1}.` : '-'} ${item}`), '');
+  };
+  section('Guidance', p.guidance);
+  section('Questions', p.questions, true);
+  section('Example answers', p.examples);
+  for (const entry of p.roadmap || []) {
+    section(
+      `Roadmap: ${entry.useCaseName || entry.useCaseId}`,
+      entry.tasks.map(t => [t.title, t.owner && `owner ${t.owner}`, t.dueInDays !== undefined && `due in ${t.dueInDays} days`].filter(Boolean).join(', '))
+    );
+  }
+  section('Documents cited', p.citations?.map(c => c.name));
+  section('Sources', p.sources?.map(s => `[${s.id}] ${s.title}${s.url ? ` (${s.url})` : ''}`));
+  return lines;
+}
+
+/** The conversation as Markdown, with each reply's structured fields under it. */
+export function transcriptToMarkdown(a: Pick<Assessment, 'name' | 'transcript'>, exportedAt: Date = new Date()): string {
+  const lines = [`# Conversation: ${a.name}`, '', `Exported ${exportedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`, ''];
+  if (a.transcript.length === 0) lines.push('No messages yet.', '');
+  for (const m of a.transcript) {
+    lines.push(`## ${SPEAKERS[m.sender]}${m.at ? ` · ${m.at.slice(0, 16).replace('T', ' ')}` : ''}`, '', m.text, '');
+    if (m.payload) lines.push(...payloadMarkdown(m.payload));
+  }
+  return lines.join('\n');
+}
+
+/** The conversation as JSON, in the stored message shape. */
+export function transcriptToJson(a: Pick<Assessment, 'id' | 'name' | 'transcript'>, exportedAt: Date = new Date()) {
+  return { assessmentId: a.id, name: a.name, exportedAt: exportedAt.toISOString(), transcript: a.transcript as TranscriptMessage[] };
+}
+
+/** True when `next` still starts with the first `count` messages of `previous`. */
+export function keepsPrefix(previous: TranscriptMessage[], next: TranscriptMessage[], count: number): boolean {
+  if (next.length < count) return false;
+  for (let i = 0; i < count; i++) {
+    if (previous[i]?.sender !== next[i].sender || previous[i]?.text !== next[i].text) return false;
+  }
+  return true;
+}
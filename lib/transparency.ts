@@ -0,0 +1,119 @@
+import type { AgentState } from './agentState';
+import templateData from './data/transparency-templates.v1.json';
+import { DEFAULT_LOCALE, isLocale, Locale } from './i18n/locales';
+import { effectiveRisk } from './obligations';
+import { classifyUseCase } from './riskClassifier';
+
+/** Transparency artefacts for Article 50 duties; `rule` is the classifier rule that calls for one. */
+export const TRANSPARENCY_ARTEFACTS = [
+  { id: 'disclosure', article: 'Art. 50(1)', rule: 'art50-interaction' },
+  { id: 'contentLabel', article: 'Art. 50(2)', rule: 'art50-synthetic-content' },
+  { id: 'emotionNotice', article: 'Art. 50(3)', rule: 'art50-emotion-biometric-notice' },
+  { id: 'deepfake', article: 'Art. 50(4)', rule: 'art50-deepfake' },
+  // Internal procedure for keeping the notices in place; added whenever any notice is.
+  { id: 'sop', article: 'Art. 50', rule: undefined },
+] as const;
+
+export type TransparencyArtefactId = (typeof TRANSPARENCY_ARTEFACTS)[number]['id'];
+
+/** A use case's generated and possibly edited transparency texts. */
+export type TransparencyNotice = {
+  useCaseId: string;
+  // Language the templates were filled in.
+  locale: Locale;
+  artefacts: Partial<Record<TransparencyArtefactId, string>>;
+  generatedAt: string;
+  updatedAt?: string;
+};
+
+type Placeholder = 'org' | 'useCase' | 'process' | 'subjects' | 'owner';
+
+type NoticeId = Exclude<TransparencyArtefactId, 'sop'>;
+
+type LocaleTemplates = Record<NoticeId, string> & {
+  // One SOP step per notice the use case needs, followed by the review and evidence steps.
+  sop: { heading: string; steps: Record<NoticeId | 'review' | 'evidence', string> };
+  fallbacks: Record<Exclude<Placeholder, 'useCase'>, string>;
+};
+
+type TemplateSet = {
+  version: string;
+  locales: Record<Locale, LocaleTemplates>;
+};
+
+export const TRANSPARENCY_TEMPLATES = templateData as TemplateSet;
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+const isArtefactId = (v: unknown): v is TransparencyArtefactId => TRANSPARENCY_ARTEFACTS.some(a => a.id === v);
+
+function firedRules(u: UseCase): string[] {
+  const cls = classifyUseCase(u);
+  return [cls.ruleId, ...cls.alsoMatched.map(m => m.ruleId)].filter((id): id is string => !!id);
+}
+
+/**
+ * Artefacts a use case needs: one per Article 50 rule that fires, plus the SOP. A use case
+ * labelled limited risk without a matching rule gets the end-user disclosure. Empty when
+ * no transparency duty applies.
+ */
+export function transparencyArtefacts(u: UseCase): TransparencyArtefactId[] {
+  if (u.inScope === false) return [];
+  const fired = firedRules(u);
+  const matched = TRANSPARENCY_ARTEFACTS.filter(a => a.rule && fired.includes(a.rule)).map(a => a.id);
+  if (matched.length === 0 && effectiveRisk(u) !== 'limited') return [];
+  return [...(matched.length > 0 ? matched : ['disclosure' as const]), 'sop'];
+}
+
+// Country names (English and native) and ISO codes of countries whose main language is supported.
+const COUNTRY_LOCALES: Array<[RegExp, Locale]> = [
+  [/^(de|at|li|germany|deutschland|austria|österreich|liechtenstein)$/i, 'de'],
+  [/^(fr|france|monaco)$/i, 'fr'],
+  [/^(lv|latvia|latvija)$/i, 'lv'],
+  [/^(pl|poland|polska)$/i, 'pl'],
+];
+
+/** The organisation's language, from its country; the default locale when unknown or multilingual. */
+export function orgLocale(org: AgentState['org']): Locale {
+  const country = (org?.country || '').trim();
+  return COUNTRY_LOCALES.find(([re]) => re.test(country))?.[1] || DEFAULT_LOCALE;
+}
+
+const fill = (template: string, values: Record<Placeholder, string>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (m, key: string) => (key in values ? values[key as Placeholder] : m));
+
+/** Fills the templates for every artefact the use case needs. */
+export function generateTransparencyNotice(state: AgentState, u: UseCase, locale: Locale, now: Date = new Date()): TransparencyNotice {
+  const templates = TRANSPARENCY_TEMPLATES.locales[locale];
+  const values: Record<Placeholder, string> = {
+    org: state.org?.name?.trim() || templates.fallbacks.org,
+    useCase: u.name?.trim() || u.id,
+    process: u.process?.trim() || templates.fallbacks.process,
+    subjects: u.subjects?.length ? u.subjects.join(', ') : templates.fallbacks.subjects,
+    owner: u.owner?.trim() || templates.fallbacks.owner,
+  };
+  const ids = transparencyArtefacts(u);
+  const notices = ids.filter((id): id is NoticeId => id !== 'sop');
+  const steps = [...notices, 'review' as const, 'evidence' as const].map((id, i) => `${i + 1}. ${templates.sop.steps[id]}`);
+  const artefacts: TransparencyNotice['artefacts'] = Object.fromEntries(notices.map(id => [id, fill(templates[id], values)]));
+  if (ids.includes('sop')) artefacts.sop = fill([templates.sop.heading, '', ...steps].join('\n'), values);
+  return { useCaseId: u.id, locale, artefacts, generatedAt: now.toISOString() };
+}
+
+/** Coerces client-supplied transparency notices, dropping anything invalid. */
+export function sanitizeTransparencyNotices(input: any): TransparencyNotice[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((n: any) => n && typeof n.useCaseId === 'string' && n.useCaseId && typeof n.generatedAt === 'string')
+    .map((n: any) => ({
+      useCaseId: n.useCaseId,
+      locale: isLocale(n.locale) ? n.locale : DEFAULT_LOCALE,
+      artefacts: Object.fromEntries(
+        Object.entries(n.artefacts && typeof n.artefacts === 'object' ? n.artefacts : {}).filter(
+          ([k, v]) => isArtefactId(k) && typeof v === 'string'
+        )
+      ) as TransparencyNotice['artefacts'],
+      generatedAt: n.generatedAt,
+      updatedAt: typeof n.updatedAt === 'string' ? n.updatedAt : undefined,
+    }));
+}
@@ -0,0 +1,330 @@
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import priceData from './data/model-prices.v1.json';
+import { GuardrailError } from './guardrails/types';
+import { estimateTokens, LlmProvider, LlmRequest, LlmResult, LlmStreamChunk, resolveModel, resolveProvider } from './llm';
+import { logger } from './logger';
+
+export type ModelPrice = { input: number; output: number };
+
+type PriceTable = {
+  version: string;
+  currency: string;
+  unit: string;
+  // Keyed `<provider>:<model>`; `<provider>:*` covers every model of a provider.
+  models: Record<string, ModelPrice>;
+};
+
+/** Tokens and cost of one API request, across every model call it made. */
+export type TurnUsage = {
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Null when the model has no entry in the price table.
+  costUsd: number | null;
+  // Some counts were estimated from text length because the provider reported none.
+  estimated: boolean;
+  // `<provider>:<model>` the request asked for before the budget forced a cheaper one.
+  downgradedFrom?: string;
+};
+
+/** One line of the usage log. */
+export type UsageRecord = TurnUsage & {
+  at: string;
+  requestId: string;
+  route: string;
+  // Hashed configured API key or client address, as used for rate limiting.
+  client: string;
+  assessmentId?: string;
+};
+
+let prices: PriceTable | undefined;
+
+/** The bundled price table, or the file in `LLM_PRICES_PATH`. */
+export function priceTable(): PriceTable {
+  if (prices) return prices;
+  const file = process.env.LLM_PRICES_PATH;
+  const table = (file ? JSON.parse(fs.readFileSync(file, 'utf8')) : priceData) as PriceTable;
+  if (!table?.models || typeof table.models !== 'object') throw new Error(`${file} must contain a "models" object`);
+  prices = table;
+  return table;
+}
+
+export function priceFor(provider: string, model: string): ModelPrice | undefined {
+  const { models } = priceTable();
+  return models[`${provider}:${model}`] || models[`${provider}:*`];
+}
+
+export function costOf(provider: string, model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = priceFor(provider, model);
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export type UsageMeter = {
+  // The provider with every call counted.
+  wrap(provider: LlmProvider): LlmProvider;
+  totals(): TurnUsage;
+  // Appends the request to the usage log; nothing is written when no model call was made.
+  save(record: Omit<UsageRecord, keyof TurnUsage | 'at'>): Promise<void>;
+};
+
+const requestText = (req: LlmRequest) =>
+  [req.system, req.input, ...(req.toolRounds || []).flatMap(r => r.results.map(x => x.output))].join('\n');
+
+/** Counts tokens for one API request, using the provider's figures where it reports them. */
+export function createUsageMeter(opts: { provider: string; model: string; downgradedFrom?: string }): UsageMeter {
+  const usage = { calls: 0, inputTokens: 0, outputTokens: 0, estimated: false };
+
+  const count = (req: LlmRequest, result: Pick<LlmResult, 'text' | 'usage'>) => {
+    usage.calls++;
+    if (result.usage) {
+      usage.inputTokens += result.usage.inputTokens;
+      usage.outputTokens += result.usage.outputTokens;
+    } else {
+      usage.inputTokens += estimateTokens(requestText(req));
+      usage.outputTokens += estimateTokens(result.text);
+      usage.estimated = true;
+    }
+  };
+
+  const totals = (): TurnUsage => ({
+    provider: opts.provider,
+    model: opts.model,
+    calls: usage.calls,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    totalTokens: usage.inputTokens + usage.outputTokens,
+    costUsd: costOf(opts.provider, opts.model, usage.inputTokens, usage.outputTokens),
+    estimated: usage.estimated,
+    ...(opts.downgradedFrom ? { downgradedFrom: opts.downgradedFrom } : {}),
+  });
+
+  return {
+    wrap: provider => ({
+      name: provider.name,
+      async complete(req, callOpts) {
+        const result = await provider.complete(req, callOpts);
+        count(req, result);
+        return result;
+      },
+      async *stream(req, callOpts): AsyncIterable<LlmStreamChunk> {
+        let text = '';
+        let done = false;
+        try {
+          for await (const chunk of provider.stream(req, callOpts)) {
+            if (chunk.type === 'delta') text += chunk.text;
+            else {
+              done = true;
+              count(req, chunk.result);
+            }
+            yield chunk;
+          }
+        } finally {
+          // An aborted stream was still billed for what the model produced.
+          if (!done && text) count(req, { text });
+        }
+      },
+    }),
+    totals,
+    async save(record) {
+      if (usage.calls === 0) return;
+      const turn = totals();
+      if (turn.costUsd === null) {
+        logger.warn('Model has no price; its usage is not counted against budgets', {
+          requestId: record.requestId,
+          model: `${turn.provider}:${turn.model}`,
+        });
+      }
+      await appendUsage({ at: new Date().toISOString(), ...record, ...turn });
+    },
+  };
+}
+
+function usageLogPath(): string {
+  return process.env.USAGE_LOG_PATH || path.join(process.cwd(), 'data', 'usage.jsonl');
+}
+
+const monthOf = (iso: string) => iso.slice(0, 7);
+
+// Spend in the current month, per client; loaded from the log once, then kept up to date.
+let monthSpend: { month: string; total: number; byClient: Map<string, number> } | undefined;
+
+async function spendThisMonth(now: Date) {
+  const month = monthOf(now.toISOString());
+  if (monthSpend?.month !== month) {
+    const records = await readUsage({ from: `${month}-01` });
+    const byClient = new Map<string, number>();
+    let total = 0;
+    for (const r of records) {
+      total += r.costUsd || 0;
+      byClient.set(r.client, (byClient.get(r.client) || 0) + (r.costUsd || 0));
+    }
+    monthSpend = { month, total, byClient };
+  }
+  return monthSpend;
+}
+
+async function appendUsage(record: UsageRecord): Promise<void> {
+  const file = usageLogPath();
+  await fsp.mkdir(path.dirname(file), { recursive: true });
+  await fsp.appendFile(file, JSON.stringify(record) + '\n', 'utf8');
+  if (monthSpend?.month === monthOf(record.at)) {
+    monthSpend.total += record.costUsd || 0;
+    monthSpend.byClient.set(record.client, (monthSpend.byClient.get(record.client) || 0) + (record.costUsd || 0));
+  }
+}
+
+/** Usage log lines with `at` in [from, to); dates are `YYYY-MM-DD` or full timestamps. */
+export async function readUsage(range: { from?: string; to?: string } = {}): Promise<UsageRecord[]> {
+  let text: string;
+  try {
+    text = await fsp.readFile(usageLogPath(), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+  const records: UsageRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const r = JSON.parse(line) as UsageRecord;
+      if (range.from && r.at < range.from) continue;
+      if (range.to && r.at >= range.to) continue;
+      records.push(r);
+    } catch {
+      // A line cut short by a crash is skipped rather than failing the report.
+    }
+  }
+  return records;
+}
+
+const envUsd = (name: string) => {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+/**
+ * Monthly spend limits in USD: `USAGE_BUDGET_USD` for the whole deployment and
+ * `USAGE_BUDGET_PER_CLIENT_USD` per client. Over a limit, `BUDGET_ACTION=downgrade` switches
+ * to `BUDGET_DOWNGRADE_MODEL`; otherwise (`reject`, the default) requests are refused.
+ */
+export function budgetSettings() {
+  const downgradeModel = process.env.BUDGET_DOWNGRADE_MODEL?.trim() || undefined;
+  return {
+    totalUsd: envUsd('USAGE_BUDGET_USD'),
+    perClientUsd: envUsd('USAGE_BUDGET_PER_CLIENT_USD'),
+    action: process.env.BUDGET_ACTION === 'downgrade' && downgradeModel ? ('downgrade' as const) : ('reject' as const),
+    downgradeModel,
+  };
+}
+
+/**
+ * Checks this month's spend before a model-backed request. Returns the model to use
+ * instead when the budget is spent and downgrading is configured; throws a 402
+ * `GuardrailError` when it is spent and requests are rejected.
+ */
+export async function applyBudget(client: string, now: Date = new Date()): Promise<{ downgradeTo?: string }> {
+  const budget = budgetSettings();
+  if (budget.totalUsd === undefined && budget.perClientUsd === undefined) return {};
+  const spend = await spendThisMonth(now);
+  const clientSpend = spend.byClient.get(client) || 0;
+  const over =
+    budget.totalUsd !== undefined && spend.total >= budget.totalUsd
+      ? 'The monthly usage budget is spent'
+      : budget.perClientUsd !== undefined && clientSpend >= budget.perClientUsd
+        ? 'Your monthly usage budget is spent'
+        : undefined;
+  if (!over) return {};
+  if (budget.action === 'downgrade') return { downgradeTo: budget.downgradeModel };
+  throw new GuardrailError(`${over}; requests resume next month or when the limit is raised`, 402, 'budget_exceeded');
+}
+
+/** The budget settings with this month's spend, for the admin usage report. */
+export async function budgetStatus(now: Date = new Date()) {
+  const budget = budgetSettings();
+  const spend = await spendThisMonth(now);
+  return { ...budget, month: spend.month, spentUsd: spend.total };
+}
+
+/**
+ * `resolveProvider` behind the budget check: the requested model, or the downgrade model
+ * once the budget is spent, wrapped in a meter that counts every call made through it.
+ * Spend on a model without a price cannot be counted, so while a budget is set such a
+ * model is replaced by the downgrade model, or refused with a 400 when there is none.
+ */
+export async function meteredProvider(
+  model: unknown,
+  client: string
+): Promise<{ provider: LlmProvider; model: string; meter: UsageMeter }> {
+  const budget = budgetSettings();
+  const budgeted = budget.totalUsd !== undefined || budget.perClientUsd !== undefined;
+  const { downgradeTo } = await applyBudget(client);
+  const requested = resolveModel(model);
+  let target = downgradeTo ? resolveModel(downgradeTo) : requested;
+  if (budgeted && !priceFor(target.provider, target.model) && budget.action === 'downgrade') {
+    target = resolveModel(budget.downgradeModel);
+  }
+  if (budgeted && !priceFor(target.provider, target.model)) {
+    throw new GuardrailError(
+      `The model "${target.provider}:${target.model}" has no price, so it cannot be used while a usage budget is set`,
+      400,
+      'model_unpriced'
+    );
+  }
+  const resolved = resolveProvider(`${target.provider}:${target.model}`);
+  const meter = createUsageMeter({
+    provider: resolved.provider.name,
+    model: resolved.model,
+    ...(target !== requested ? { downgradedFrom: `${requested.provider}:${requested.model}` } : {}),
+  });
+  return { provider: meter.wrap(resolved.provider), model: resolved.model, meter };
+}
+
+type UsageTotals = { requests: number; inputTokens: number; outputTokens: number; totalTokens: number; costUsd: number; unpriced: number };
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, unpriced: 0 });
+
+function add(t: UsageTotals, r: UsageRecord) {
+  t.requests++;
+  t.inputTokens += r.inputTokens;
+  t.outputTokens += r.outputTokens;
+  t.totalTokens += r.totalTokens;
+  if (r.costUsd === null) t.unpriced++;
+  else t.costUsd += r.costUsd;
+}
+
+function groupTotals(records: UsageRecord[], keyOf: (r: UsageRecord) => string | undefined) {
+  const groups = new Map<string, UsageTotals>();
+  for (const r of records) {
+    const key = keyOf(r);
+    if (key === undefined) continue;
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    add(groups.get(key)!, r);
+  }
+  return Array.from(groups, ([key, totals]) => ({ key, ...totals }));
+}
+
+export const USAGE_PERIODS = ['day', 'month'] as const;
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+/** Totals over the records, over time and per model, client and assessment. */
+export function summariseUsage(records: UsageRecord[], period: UsagePeriod = 'day') {
+  const totals = emptyTotals();
+  for (const r of records) add(totals, r);
+  const byCost = (a: { costUsd: number }, b: { costUsd: number }) => b.costUsd - a.costUsd;
+  return {
+    currency: priceTable().currency,
+    totals,
+    periods: groupTotals(records, r => r.at.slice(0, period === 'day' ? 10 : 7)).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: groupTotals(records, r => `${r.provider}:${r.model}`).sort(byCost),
+    byClient: groupTotals(records, r => r.client).sort(byCost),
+    byAssessment: groupTotals(records, r => r.assessmentId).sort(byCost),
+    byRoute: groupTotals(records, r => r.route).sort(byCost),
+    // Not counted in any cost or budget until the price table covers them.
+    unpricedModels: Array.from(new Set(records.filter(r => r.costUsd === null).map(r => `${r.provider}:${r.model}`))).sort(),
+  };
+}
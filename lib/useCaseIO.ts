@@ -0,0 +1,160 @@
+import { AgentState, sanitizeStateUpdates } from './agentState';
+
+export type UseCase = NonNullable<AgentState['useCases']>[number];
+
+export const USE_CASE_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'process',
+  'inScope',
+  'risk',
+  'model',
+  'vendorId',
+  'data',
+  'subjects',
+  'owner',
+  'jurisdictions',
+] as const;
+
+const LIST_COLUMNS = new Set(['data', 'subjects', 'jurisdictions']);
+const LIST_SEPARATOR = '; ';
+
+/** Splits a list cell on semicolons (the export format) or commas. */
+export function splitList(value: string): string[] {
+  const sep = value.includes(';') ? ';' : ',';
+  return value.split(sep).map(s => s.trim()).filter(Boolean);
+}
+
+// Spreadsheets run cells starting with these as formulas, so the export prefixes them with
+// a quote and the import strips it again.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvEscape(value: string): string {
+  if (FORMULA_START.test(value)) value = `'${value}`;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatUseCasesCsv(useCases: UseCase[]): string {
+  const rows = [USE_CASE_COLUMNS.join(',')];
+  for (const u of useCases) {
+    rows.push(
+      USE_CASE_COLUMNS.map(col => {
+        const v = (u as Record<string, unknown>)[col];
+        if (v === undefined || v === null) return '';
+        if (Array.isArray(v)) return csvEscape(v.join(LIST_SEPARATOR));
+        return csvEscape(String(v));
+      }).join(',')
+    );
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+// Spreadsheets in many EU locales export with semicolons, so sniff the header line.
+function detectDelimiter(text: string): ',' | ';' {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+}
+
+/** RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes. */
+export function parseCsv(text: string, delimiter: ',' | ';' = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+const normaliseHeader = (h: string) => h.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+const HEADER_ALIASES: Record<string, (typeof USE_CASE_COLUMNS)[number]> = {
+  ...Object.fromEntries(USE_CASE_COLUMNS.map(c => [c.toLowerCase(), c])),
+  title: 'name',
+  system: 'name',
+  usecase: 'name',
+  businessprocess: 'process',
+  inscope: 'inScope',
+  risklevel: 'risk',
+  vendor: 'model',
+  datacategories: 'data',
+  affectedpersons: 'subjects',
+  datasubjects: 'subjects',
+  countries: 'jurisdictions',
+};
+
+function coerceRow(record: Record<string, string>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(record)) {
+    const value = (raw.startsWith("'") && FORMULA_START.test(raw.slice(1)) ? raw.slice(1) : raw).trim();
+    if (!value) continue;
+    if (LIST_COLUMNS.has(key)) out[key] = splitList(value);
+    else if (key === 'inScope') {
+      if (/^(true|yes|y|1)$/i.test(value)) out.inScope = true;
+      else if (/^(false|no|n|0)$/i.test(value)) out.inScope = false;
+    } else if (key === 'risk') out.risk = value.toLowerCase();
+    else out[key] = value;
+  }
+  return out;
+}
+
+/**
+ * Runs imported rows through the same rules the API applies to model output, so a
+ * spreadsheet cannot introduce values the model could not.
+ */
+function sanitizeRows(rows: unknown[]): UseCase[] {
+  return sanitizeStateUpdates({ useCases: rows.filter(r => r && typeof r === 'object') })?.useCases || [];
+}
+
+export function parseUseCasesCsv(text: string): UseCase[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(h => HEADER_ALIASES[normaliseHeader(h)]);
+  if (!columns.includes('name')) throw new Error('CSV needs a "name" column');
+
+  return sanitizeRows(
+    rows.map(cells => {
+      const record: Record<string, string> = {};
+      columns.forEach((col, i) => {
+        if (col) record[col] = cells[i] ?? '';
+      });
+      return coerceRow(record);
+    })
+  );
+}
+
+export function formatUseCasesJson(useCases: UseCase[]): string {
+  return JSON.stringify({ useCases }, null, 2) + '\n';
+}
+
+/** Accepts either `{ "useCases": [...] }` or a bare array. */
+export function parseUseCasesJson(text: string): UseCase[] {
+  const parsed = JSON.parse(text);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.useCases;
+  if (!Array.isArray(rows)) throw new Error('JSON must be an array of use cases or { "useCases": [...] }');
+  return sanitizeRows(rows);
+}
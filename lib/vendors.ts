@@ -0,0 +1,144 @@
+import type { AgentState } from './agentState';
+
+/** Documents a deployer should hold from the supplier of a third-party model or system. */
+export const VENDOR_DOCUMENTS = [
+  { id: 'instructionsForUse', article: 'Art. 13', title: 'Instructions for use', gpaiOnly: false },
+  // What GPAI providers owe downstream providers; other suppliers are not bound to hand it over.
+  { id: 'technicalDocumentationSummary', article: 'Art. 53(1)(b), Annex XII', title: 'Technical documentation summary', gpaiOnly: true },
+  { id: 'copyrightPolicy', article: 'Art. 53(1)(c)', title: 'Copyright policy', gpaiOnly: true },
+] as const;
+
+export type VendorDocumentId = (typeof VENDOR_DOCUMENTS)[number]['id'];
+
+export const VENDOR_DOCUMENT_STATUSES = ['missing', 'requested', 'received'] as const;
+export type VendorDocumentStatus = (typeof VENDOR_DOCUMENT_STATUSES)[number];
+
+/** One third-party model or AI system, shared by every use case that runs on it. */
+export type VendorEntry = {
+  id: string;
+  // Model or product, e.g. "GPT-4o".
+  name: string;
+  // Company that places it on the market.
+  provider?: string;
+  gpai: boolean;
+  // GPAI model with systemic risk (Art. 51); its provider has the extra Art. 55 duties.
+  systemicRisk: boolean;
+  documents: Partial<Record<VendorDocumentId, VendorDocumentStatus>>;
+  contractClauses?: string;
+  // What the provider states about its own AI Act compliance.
+  complianceClaims?: string;
+  // YYYY-MM-DD
+  lastReviewedAt?: string;
+  nextReviewAt?: string;
+  updatedAt?: string;
+};
+
+type UseCase = NonNullable<AgentState['useCases']>[number];
+
+export const REVIEW_INTERVAL_MONTHS = 12;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDocumentId = (v: unknown): v is VendorDocumentId => VENDOR_DOCUMENTS.some(d => d.id === v);
+const isDocumentStatus = (v: unknown): v is VendorDocumentStatus => (VENDOR_DOCUMENT_STATUSES as readonly unknown[]).includes(v);
+
+export const vendorFor = (state: AgentState, u: UseCase): VendorEntry | undefined =>
+  u.vendorId ? (state.vendors || []).find(v => v.id === u.vendorId) : undefined;
+
+/** Checklist items that apply to an entry: all of them for GPAI models, otherwise the instructions for use. */
+export const requiredDocuments = (entry: VendorEntry) => VENDOR_DOCUMENTS.filter(d => entry.gpai || !d.gpaiOnly);
+
+export const missingDocuments = (entry: VendorEntry) =>
+  requiredDocuments(entry).filter(d => entry.documents[d.id] !== 'received');
+
+/** Due when never reviewed or once the next review date has passed. */
+export function reviewDue(entry: VendorEntry, now: Date = new Date()): boolean {
+  if (!entry.lastReviewedAt) return true;
+  return !!entry.nextReviewAt && entry.nextReviewAt <= now.toISOString().slice(0, 10);
+}
+
+/** Marks an entry reviewed today and schedules the next review. */
+export function markReviewed(entry: VendorEntry, now: Date = new Date()): VendorEntry {
+  const next = new Date(now);
+  next.setUTCMonth(next.getUTCMonth() + REVIEW_INTERVAL_MONTHS);
+  return {
+    ...entry,
+    lastReviewedAt: now.toISOString().slice(0, 10),
+    nextReviewAt: next.toISOString().slice(0, 10),
+    updatedAt: now.toISOString(),
+  };
+}
+
+export function newVendorEntry(name: string, gpai = false): VendorEntry {
+  return { id: `vendor-${Date.now()}`, name, gpai, systemicRisk: false, documents: {} };
+}
+
+/**
+ * Registry entries for use cases that only name their model as free text: one entry per
+ * distinct name, reusing an entry with the same name, and the use cases linked to them.
+ */
+export function linkFreeTextModels(
+  state: AgentState,
+  isGpai: (model: string) => boolean
+): { vendors: VendorEntry[]; useCases: UseCase[] } {
+  const vendors = [...(state.vendors || [])];
+  const useCases = (state.useCases || []).map(u => {
+    const model = u.model?.trim();
+    if (u.vendorId || !model) return u;
+    let entry = vendors.find(v => v.name.toLowerCase() === model.toLowerCase());
+    if (!entry) {
+      entry = { ...newVendorEntry(model, isGpai(model)), id: `vendor-${Date.now()}-${vendors.length}` };
+      vendors.push(entry);
+    }
+    return { ...u, vendorId: entry.id };
+  });
+  return { vendors, useCases };
+}
+
+/**
+ * What to ask each supplier for, per linked in-scope use case: missing documents and
+ * overdue reviews. Given to the assistant so its advice to deployers names concrete requests.
+ */
+export function supplierRequests(state: AgentState, now: Date = new Date()) {
+  return (state.useCases || []).flatMap(u => {
+    const entry = u.inScope === false ? undefined : vendorFor(state, u);
+    if (!entry) return [];
+    return [{
+      useCaseId: u.id,
+      vendor: entry.name,
+      provider: entry.provider,
+      gpai: entry.gpai,
+      systemicRisk: entry.systemicRisk,
+      missingDocuments: missingDocuments(entry).map(d => `${d.title} (${d.article}): ${entry.documents[d.id] || 'missing'}`),
+      reviewDue: reviewDue(entry, now),
+      ...(entry.contractClauses ? { contractClauses: entry.contractClauses } : {}),
+      ...(entry.complianceClaims ? { complianceClaims: entry.complianceClaims } : {}),
+    }];
+  });
+}
+
+/** Coerces client-supplied registry entries, dropping anything invalid. */
+export function sanitizeVendors(input: any): VendorEntry[] {
+  if (!Array.isArray(input)) return [];
+  const text = (v: any) => (typeof v === 'string' && v.trim() ? v : undefined);
+  const date = (v: any) => (typeof v === 'string' && DATE.test(v) ? v : undefined);
+  return input
+    .filter((v: any) => v && typeof v.id === 'string' && v.id && typeof v.name === 'string' && v.name.trim())
+    .map((v: any) => ({
+      id: v.id,
+      name: v.name.trim(),
+      provider: text(v.provider),
+      gpai: v.gpai === true,
+      systemicRisk: v.gpai === true && v.systemicRisk === true,
+      documents: Object.fromEntries(
+        Object.entries(v.documents && typeof v.documents === 'object' ? v.documents : {}).filter(
+          ([k, s]) => isDocumentId(k) && isDocumentStatus(s)
+        )
+      ) as VendorEntry['documents'],
+      contractClauses: text(v.contractClauses),
+      complianceClaims: text(v.complianceClaims),
+      lastReviewedAt: date(v.lastReviewedAt),
+      nextReviewAt: date(v.nextReviewAt),
+      updatedAt: typeof v.updatedAt === 'string' ? v.updatedAt : undefined,
+    }));
+}
@@ -1,4 +1,5 @@
 import type { AppProps } from 'next/app';
+import '@/lib/i18n';
 import '../styles/globals.css';
 
 function MyApp({ Component, pageProps }: AppProps) {
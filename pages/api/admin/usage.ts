@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAdminKey } from '@/lib/api/auth';
+import { budgetStatus, readUsage, summariseUsage, USAGE_PERIODS, UsagePeriod } from '@/lib/usage';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Token and cost totals from the usage log: `from` and `to` (YYYY-MM-DD, `to` exclusive)
+ * default to the current month; `groupBy` is `day` (the default) or `month`.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { from, to, groupBy = 'day' } = req.query;
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !DATE.test(value))) {
+      return res.status(400).json({ error: `"${name}" must be a date as YYYY-MM-DD` });
+    }
+  }
+  if (!(USAGE_PERIODS as readonly unknown[]).includes(groupBy)) {
+    return res.status(400).json({ error: `"groupBy" must be one of ${USAGE_PERIODS.join(', ')}` });
+  }
+
+  try {
+    const range = { from: (from as string | undefined) || `${new Date().toISOString().slice(0, 7)}-01`, to: to as string | undefined };
+    const records = await readUsage(range);
+    return res.status(200).json({
+      ...range,
+      groupBy,
+      ...summariseUsage(records, groupBy as UsagePeriod),
+      budget: await budgetStatus(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAdminKey(handler);
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import {
+  AssessmentStoreError,
+  deleteAssessment,
+  getAssessment,
+  toClientAssessment,
+  updateAssessment,
+} from '@/lib/assessmentStore';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = String(req.query.id || '');
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ assessment: toClientAssessment(await getAssessment(id)) });
+    }
+
+    if (req.method === 'PUT') {
+      const { name, state, transcript, archived, version, source, message } = req.body || {};
+      return res.status(200).json({
+        assessment: toClientAssessment(await updateAssessment(id, { name, state, transcript, archived, version, source, message })),
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteAssessment(id);
+      return res.status(204).end();
+    }
+
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { roadmapToIcs } from '@/lib/ics';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const assessment = await getAssessment(String(req.query.id || ''));
+    const ics = roadmapToIcs(assessment.state.roadmap || [], {
+      assessmentId: assessment.id,
+      calendarName: `AI Act roadmap – ${assessment.state.org?.name || assessment.name}`,
+    });
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="roadmap-${assessment.id}.ics"`);
+    return res.status(200).send(ics);
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
@@ -0,0 +1,57 @@
+import formidable from 'formidable';
+import { promises as fs } from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { addDocument, AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { cleanFileName, DocumentError, documentSummary, MAX_DOCUMENT_BYTES } from '@/lib/documents';
+
+// Uploads arrive as multipart/form-data, which formidable parses from the raw request.
+export const config = { api: { bodyParser: false } };
+
+async function readUpload(req: NextApiRequest): Promise<{ name: string; data: Buffer }> {
+  const form = formidable({ maxFiles: 1, maxFileSize: MAX_DOCUMENT_BYTES, allowEmptyFiles: false });
+  let files: formidable.Files;
+  try {
+    [, files] = await form.parse(req);
+  } catch (error: any) {
+    throw new DocumentError(error?.message || 'Could not read upload', error?.httpCode || 400);
+  }
+  const file = files.file?.[0];
+  if (!file) throw new DocumentError('Missing "file" in form data', 400);
+  try {
+    return { name: cleanFileName(file.originalFilename), data: await fs.readFile(file.filepath) };
+  } finally {
+    await fs.unlink(file.filepath).catch(() => {});
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = String(req.query.id || '');
+
+  try {
+    if (req.method === 'GET') {
+      const assessment = await getAssessment(id);
+      return res.status(200).json({ documents: (assessment.documents || []).map(documentSummary) });
+    }
+
+    if (req.method === 'POST') {
+      // Fail on an unknown assessment before reading the upload.
+      await getAssessment(id);
+      const assessment = await addDocument(id, await readUpload(req));
+      const documents = assessment.documents || [];
+      return res.status(201).json({
+        document: documentSummary(documents[documents.length - 1]),
+        documents: documents.map(documentSummary),
+        version: assessment.version,
+      });
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError || error instanceof DocumentError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, removeDocument } from '@/lib/assessmentStore';
+import { documentSummary } from '@/lib/documents';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = String(req.query.id || '');
+  const documentId = String(req.query.documentId || '');
+
+  try {
+    if (req.method === 'DELETE') {
+      const assessment = await removeDocument(id, documentId);
+      return res.status(200).json({ documents: (assessment.documents || []).map(documentSummary), version: assessment.version });
+    }
+
+    res.setHeader('Allow', 'DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
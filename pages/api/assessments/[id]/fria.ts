@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { buildFriaDocument, friaToHtml, friaToMarkdown, friaToPdfBlocks } from '@/lib/fria';
+import { renderTextPdf } from '@/lib/pdf';
+
+const FORMATS = ['md', 'html', 'pdf'] as const;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const format = String(req.query.format || 'md');
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    return res.status(400).json({ error: `"format" must be one of ${FORMATS.join(', ')}` });
+  }
+  const useCaseId = String(req.query.useCaseId || '');
+  if (!useCaseId) {
+    return res.status(400).json({ error: 'Missing "useCaseId" query parameter' });
+  }
+
+  try {
+    const assessment = await getAssessment(String(req.query.id || ''));
+    const fria = buildFriaDocument(assessment, useCaseId);
+    if (!fria) return res.status(404).json({ error: `Unknown use case "${useCaseId}"` });
+
+    const slug = useCaseId.replace(/[^a-zA-Z0-9_-]/g, '');
+    const filename = `fria-${assessment.id}-${slug}.${format}`;
+    const disposition = format === 'html' ? 'inline' : 'attachment';
+    res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      return res.status(200).send(renderTextPdf(friaToPdfBlocks(fria), { title: fria.title }));
+    }
+    if (format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.status(200).send(friaToHtml(fria));
+    }
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+    return res.status(200).send(friaToMarkdown(fria));
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
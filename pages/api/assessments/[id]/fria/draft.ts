@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { FRIA_SECTIONS, FriaSectionId, sanitizeFrias } from '@/lib/fria';
+import { draftFriaSection } from '@/lib/friaDraft';
+import { clientKey, enforceRateLimit, GuardrailError, sendGuardrailError } from '@/lib/guardrails';
+import { DEFAULT_LOCALE, isLocale, LOCALES } from '@/lib/i18n/locales';
+import { LlmProviderError } from '@/lib/llm';
+import { logger, requestId } from '@/lib/logger';
+import { meteredProvider, UsageMeter } from '@/lib/usage';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+  const reqId = requestId(req, res);
+  const log = logger.child({ requestId: reqId, route: 'fria-draft' });
+
+  const { useCaseId, section, answers, model, locale = DEFAULT_LOCALE } = req.body || {};
+  if (!useCaseId || typeof useCaseId !== 'string') {
+    return res.status(400).json({ error: 'Missing "useCaseId" string in body' });
+  }
+  if (!FRIA_SECTIONS.some(s => s.id === section)) {
+    return res.status(400).json({ error: `"section" must be one of ${FRIA_SECTIONS.map(s => s.id).join(', ')}` });
+  }
+  if (!isLocale(locale)) {
+    return res.status(400).json({ error: `"locale" must be one of ${Object.keys(LOCALES).join(', ')}` });
+  }
+
+  const client = clientKey(req);
+  const assessmentId = String(req.query.id || '');
+  let meter: UsageMeter | undefined;
+  try {
+    enforceRateLimit(client);
+    const assessment = await getAssessment(assessmentId);
+    const metered = await meteredProvider(model, client);
+    meter = metered.meter;
+    const { provider, model: selectedModel } = metered;
+    const draft = await draftFriaSection({
+      provider,
+      model: selectedModel,
+      assessment,
+      useCaseId,
+      section: section as FriaSectionId,
+      // The wizard sends its unsaved answers so the draft builds on what is on screen.
+      answers: sanitizeFrias([{ useCaseId, answers }])[0].answers,
+      locale,
+    });
+    return res.status(200).json({ draft });
+  } catch (error: any) {
+    if (error instanceof GuardrailError) return sendGuardrailError(res, error);
+    const status = error instanceof AssessmentStoreError || error instanceof LlmProviderError ? error.status : 500;
+    if (status >= 500) log.error('FRIA draft failed', { error });
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  } finally {
+    if (meter) {
+      log.info('FRIA draft usage', { ...meter.totals(), assessmentId });
+      await meter
+        .save({ requestId: reqId, route: 'fria-draft', client, assessmentId })
+        .catch(error => log.error('usage not recorded', { error }));
+    }
+  }
+}
+
+export default withAppAuth(handler);
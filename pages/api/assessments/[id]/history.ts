@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment, revertAssessment, toClientAssessment } from '@/lib/assessmentStore';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = String(req.query.id || '');
+
+  try {
+    if (req.method === 'GET') {
+      const assessment = await getAssessment(id);
+      return res.status(200).json({ changes: assessment.changes || [] });
+    }
+
+    if (req.method === 'POST') {
+      const { action, changeId, version } = req.body || {};
+      if (action !== 'undo' && action !== 'restore') {
+        return res.status(400).json({ error: '"action" must be "undo" or "restore"' });
+      }
+      if (!changeId || typeof changeId !== 'string') {
+        return res.status(400).json({ error: 'Missing "changeId" string in body' });
+      }
+      const { assessment, skipped } = await revertAssessment(id, { action, changeId, version });
+      return res.status(200).json({ assessment: toClientAssessment(assessment), skipped });
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { buildDossier, dossierToHtml, dossierToMarkdown, dossierToPdfBlocks } from '@/lib/dossier';
+import { renderTextPdf } from '@/lib/pdf';
+
+const FORMATS = ['md', 'html', 'pdf'] as const;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const format = String(req.query.format || 'md');
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    return res.status(400).json({ error: `"format" must be one of ${FORMATS.join(', ')}` });
+  }
+
+  try {
+    const assessment = await getAssessment(String(req.query.id || ''));
+    const dossier = buildDossier(assessment);
+    const filename = `ai-act-dossier-${assessment.id}.${format}`;
+    // HTML opens inline so it can be printed from the browser; the others download.
+    const disposition = format === 'html' ? 'inline' : 'attachment';
+    res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      return res.status(200).send(renderTextPdf(dossierToPdfBlocks(dossier), { title: dossier.title }));
+    }
+    if (format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.status(200).send(dossierToHtml(dossier));
+    }
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+    return res.status(200).send(dossierToMarkdown(dossier));
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
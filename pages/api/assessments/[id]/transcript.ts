@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import { AssessmentStoreError, getAssessment } from '@/lib/assessmentStore';
+import { transcriptToJson, transcriptToMarkdown } from '@/lib/transcript';
+
+const FORMATS = ['md', 'json'] as const;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const format = String(req.query.format || 'md');
+  if (!(FORMATS as readonly string[]).includes(format)) {
+    return res.status(400).json({ error: `"format" must be one of ${FORMATS.join(', ')}` });
+  }
+
+  try {
+    const assessment = await getAssessment(String(req.query.id || ''));
+    res.setHeader('Content-Disposition', `attachment; filename="conversation-${assessment.id}.${format}"`);
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      return res.status(200).send(JSON.stringify(transcriptToJson(assessment), null, 2));
+    }
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+    return res.status(200).send(transcriptToMarkdown(assessment));
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withAppAuth } from '@/lib/api/auth';
+import {
+  AssessmentStoreError,
+  createAssessment,
+  duplicateAssessment,
+  listAssessments,
+  toClientAssessment,
+} from '@/lib/assessmentStore';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ assessments: await listAssessments() });
+    }
+
+    if (req.method === 'POST') {
+      const { name, state, transcript, source, message, duplicateOf } = req.body || {};
+      if (duplicateOf !== undefined) {
+        if (typeof duplicateOf !== 'string') return res.status(400).json({ error: '"duplicateOf" must be a string' });
+        return res.status(201).json({ assessment: toClientAssessment(await duplicateAssessment(duplicateOf, name)) });
+      }
+      return res.status(201).json({
+        assessment: toClientAssessment(await createAssessment({ name, state, transcript, source, message })),
+      });
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withAppAuth(handler);
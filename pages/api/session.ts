@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { appKeyRequired, configuredApiKeys, isValidKey, SESSION_COOKIE, verifiedApiKey } from '@/lib/api/auth';
+import { clientKey, enforceRateLimit, GuardrailError, sendGuardrailError } from '@/lib/guardrails';
+
+// A month; signing in again after that is cheap.
+const MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+const cookie = (value: string, maxAge: number) =>
+  `${SESSION_COOKIE}=${encodeURIComponent(value)}; Path=/api; HttpOnly; SameSite=Strict; Max-Age=${maxAge}` +
+  (process.env.NODE_ENV === 'production' ? '; Secure' : '');
+
+/**
+ * Signs the browser app in with an API key when `REQUIRE_API_KEY=true`: GET tells the app
+ * whether it needs a key, POST `{ key }` stores a valid key in an HttpOnly cookie and
+ * DELETE signs out.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    return res.status(200).json({ required: appKeyRequired(), signedIn: verifiedApiKey(req) !== undefined });
+  }
+
+  if (req.method === 'POST') {
+    // Counted like model calls, so keys cannot be guessed at full speed.
+    try {
+      enforceRateLimit(clientKey(req));
+    } catch (error) {
+      if (error instanceof GuardrailError) return sendGuardrailError(res, error);
+      throw error;
+    }
+    const key = typeof req.body?.key === 'string' ? req.body.key.trim() : '';
+    if (!key) return res.status(400).json({ error: 'Missing "key" string in body' });
+    if (!isValidKey(key, configuredApiKeys())) return res.status(401).json({ error: 'Missing or invalid API key' });
+    res.setHeader('Set-Cookie', cookie(key, MAX_AGE_SECONDS));
+    return res.status(204).end();
+  }
+
+  if (req.method === 'DELETE') {
+    res.setHeader('Set-Cookie', cookie('', 0));
+    return res.status(204).end();
+  }
+
+  res.setHeader('Allow', 'GET, POST, DELETE');
+  return res.status(405).json({ error: 'Method Not Allowed' });
+}
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiKey } from '@/lib/api/auth';
+import { toAssessmentState } from '@/lib/api/state';
+import { AssessmentStoreError, getAssessment, updateAssessment } from '@/lib/assessmentStore';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = String(req.query.id || '');
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(toAssessmentState(await getAssessment(id)));
+    }
+
+    if (req.method === 'PUT') {
+      const { state, version, message } = req.body || {};
+      if (!state || typeof state !== 'object' || Array.isArray(state)) {
+        return res.status(400).json({ error: '"state" must be an object' });
+      }
+      const assessment = await updateAssessment(id, { state, version, message: message ?? 'Updated through the API' });
+      return res.status(200).json(toAssessmentState(assessment));
+    }
+
+    res.setHeader('Allow', 'GET, PUT');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withApiKey(handler);
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { withApiKey } from '@/lib/api/auth';
+import { toAssessmentState } from '@/lib/api/state';
+import { AssessmentStoreError, createAssessment, listAssessments } from '@/lib/assessmentStore';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ assessments: await listAssessments() });
+    }
+
+    if (req.method === 'POST') {
+      const { name, state, message } = req.body || {};
+      const assessment = await createAssessment({ name, state, message: message ?? 'Created through the API' });
+      return res.status(201).json(toAssessmentState(assessment));
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  } catch (error: any) {
+    const status = error instanceof AssessmentStoreError ? error.status : 500;
+    return res.status(status).json({ error: error?.message || 'Unknown server error' });
+  }
+}
+
+export default withApiKey(handler);
@@ -0,0 +1,5 @@
+import { withApiKey } from '@/lib/api/auth';
+import { handleChat } from '@/pages/api/chat';
+
+// Same contract as the UI's /api/chat (see ChatRequest and ChatResponse in lib/api/types).
+export default withApiKey(handleChat);
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sanitizeStateUpdates } from '@/lib/agentState';
+import { withApiKey } from '@/lib/api/auth';
+import type { ClassifyResponse } from '@/lib/api/types';
+import { classifyUseCases } from '@/lib/riskClassifier';
+
+const MAX_USE_CASES = 100;
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { useCases } = req.body || {};
+  if (!Array.isArray(useCases) || useCases.length === 0 || useCases.length > MAX_USE_CASES) {
+    return res.status(400).json({ error: `"useCases" must be an array of 1 to ${MAX_USE_CASES} use cases` });
+  }
+  if (!useCases.every(u => u && typeof u === 'object' && typeof u.id === 'string' && u.id)) {
+    return res.status(400).json({ error: 'Every use case needs a string "id"' });
+  }
+
+  const sanitized = sanitizeStateUpdates({ useCases })?.useCases || [];
+  const body: ClassifyResponse = { classifications: classifyUseCases(sanitized) };
+  return res.status(200).json(body);
+}
+
+export default withApiKey(handler);
@@ -0,0 +1,11 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// Public so API tooling can fetch the description without a key.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+  return res.status(200).json(buildOpenApiDocument());
+}
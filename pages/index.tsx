@@ -1,44 +1,337 @@
-import { useEffect, useRef, useState } from 'react';
-
-type AgentState = {
-  org?: { name?: string; country?: string; industry?: string; size?: string };
-  roles?: string[];
-  useCases?: Array<{
-    id: string;
-    name?: string;
-    description?: string;
-    process?: string;
-    inScope?: boolean;
-    risk?: 'minimal' | 'limited' | 'high' | 'prohibited' | 'unknown';
-    model?: string;
-    data?: string[];
-    subjects?: string[];
-    owner?: string;
-    jurisdictions?: string[];
-  }>;
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import AccessKeyForm from '@/components/AccessKeyForm';
+import DocumentsPanel from '@/components/DocumentsPanel';
+import FriaWizard from '@/components/FriaWizard';
+import HistoryPanel from '@/components/HistoryPanel';
+import ObligationsMatrix from '@/components/ObligationsMatrix';
+import PortfolioOverview from '@/components/PortfolioOverview';
+import RoadmapPanel from '@/components/RoadmapPanel';
+import RoleQuestionnaire from '@/components/RoleQuestionnaire';
+import RolesPanel from '@/components/RolesPanel';
+import TimelinePanel from '@/components/TimelinePanel';
+import TransparencyPanel from '@/components/TransparencyPanel';
+import UseCaseInventory from '@/components/UseCaseInventory';
+import VendorRegistry from '@/components/VendorRegistry';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
+import { AgentState, mergeAgentState } from '@/lib/agentState';
+import type { ChatResponse } from '@/lib/api/types';
+import type { AssessmentSummary, TranscriptMessage } from '@/lib/assessmentStore';
+import type { DocumentSummary } from '@/lib/documents';
+import { friaFor, FriaRecord, friaRequired, FriaSectionId } from '@/lib/fria';
+import type { GuardrailReport } from '@/lib/guardrails/types';
+import i18n, { isLocale, LOCALES, matchLocale } from '@/lib/i18n';
+import { buildObligationMatrix, ObligationRecord } from '@/lib/obligations';
+import { mergeRoadmap } from '@/lib/roadmap';
+import { ROLES } from '@/lib/responseSchema';
+import { determineRoles, organisationRoles, RoleAssignment, rolesForUseCase } from '@/lib/roles';
+import { readEventStream } from '@/lib/sse';
+import type { StateChange } from '@/lib/stateHistory';
+import { buildTimeline, isGpaiModel, taskDeadlines } from '@/lib/timeline';
+import { payloadOf } from '@/lib/transcript';
+import type { TransparencyNotice } from '@/lib/transparency';
+import { linkFreeTextModels, VendorEntry } from '@/lib/vendors';
+
+// What is stored of a message; the rest only describes how the current session received it.
+type ChatMessage = TranscriptMessage & {
+  streaming?: boolean;
+  interrupted?: boolean;
+  // An error notice in place of a reply; shown only, never saved or sent as history.
+  failed?: boolean;
+  retryText?: string;
+  guardrails?: GuardrailReport;
+  downgraded?: boolean;
 };
 
+const snapshot = (state: AgentState, transcript: ChatMessage[]) =>
+  JSON.stringify({
+    state,
+    transcript: transcript.filter(m => !m.failed).map(({ sender, text, at, payload }) => ({ sender, text, at, payload })),
+  });
+
 export default function Home() {
+  const { t } = useTranslation();
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<Array<{ text: string; sender: 'user' | 'bot' }>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [agentState, setAgentState] = useState<AgentState>({ roles: [], useCases: [] });
-  const [suggestions, setSuggestions] = useState<string[]>([]);
-  const [guidance, setGuidance] = useState<string[]>([]);
-  const [questions, setQuestions] = useState<string[]>([]);
   const [orgDraft, setOrgDraft] = useState({ name: '', country: '', industry: '', size: '' });
+  // Roles picked directly on the welcome screen, applied together on confirm.
+  const [roleDraft, setRoleDraft] = useState<string[]>([]);
+  const [assessmentId, setAssessmentId] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Whether the server wants an API key (`REQUIRE_API_KEY`) and the browser has signed in with one.
+  const [session, setSession] = useState<{ required: boolean; signedIn: boolean } | null>(null);
+  const [changes, setChanges] = useState<StateChange[]>([]);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [documentError, setDocumentError] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<AssessmentSummary[]>([]);
+  const [portfolioOpen, setPortfolioOpen] = useState(false);
+  // Describes unsaved local edits for the change log; sent with the next save.
+  const pendingChangeRef = useRef<{ source: 'manual' | 'import'; notes: string[] }>({ source: 'manual', notes: [] });
+  const versionRef = useRef<number | null>(null);
+  const lastSavedRef = useRef<string>('');
+  // Rolling conversation summary, kept client-side only when there is no stored assessment.
+  const summaryRef = useRef<unknown>(undefined);
+  const openIdRef = useRef<string | null>(null);
+  const savingRef = useRef<{ body: string; done: Promise<boolean> } | null>(null);
+
+  // The server renders in the default locale; switch to the saved or browser language after hydration.
+  useEffect(() => {
+    let saved: string | null = null;
+    try { saved = localStorage.getItem('ai_locale'); } catch {}
+    const locale = saved && isLocale(saved) ? saved : matchLocale(navigator.language);
+    i18n.changeLanguage(locale);
+    document.documentElement.lang = locale;
+  }, []);
+
+  const changeLocale = (locale: string) => {
+    if (!isLocale(locale)) return;
+    i18n.changeLanguage(locale);
+    document.documentElement.lang = locale;
+    try { localStorage.setItem('ai_locale', locale); } catch {}
+  };
 
   const endRef = useRef<HTMLDivElement | null>(null);
   const scrollToBottom = () => endRef.current?.scrollIntoView({ behavior: 'smooth' });
   useEffect(() => { scrollToBottom(); }, [messages]);
 
-  useEffect(() => {
-    try { const s = localStorage.getItem('ai_agent_state'); if (s) setAgentState(JSON.parse(s)); } catch {}
+  const applyAssessment = useCallback((a: any) => {
+    const state: AgentState = { roles: [], useCases: [], ...(a?.state || {}) };
+    const transcript = Array.isArray(a?.transcript) ? a.transcript : [];
+    versionRef.current = a.version;
+    lastSavedRef.current = snapshot(state, transcript);
+    setAgentState(state);
+    setMessages(transcript);
+    setChanges(Array.isArray(a?.changes) ? a.changes : []);
+    setDocuments(Array.isArray(a?.documents) ? a.documents : []);
+    // Notices and the unsent message belong to the workspace being left.
+    if (openIdRef.current !== a.id) {
+      summaryRef.current = undefined;
+      pendingChangeRef.current = { source: 'manual', notes: [] };
+      setHistoryNotice(null);
+      setDocumentError(null);
+      setMessage('');
+    }
+    openIdRef.current = a.id;
+    setAssessmentId(a.id);
+    try { localStorage.setItem('ai_assessment_id', a.id); } catch {}
+  }, []);
+
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const res = await fetch('/api/assessments');
+      if (res.ok) setWorkspaces((await res.json()).assessments || []);
+    } catch {}
   }, []);
 
+  // Load the last opened assessment from the server, or create one. State saved by older
+  // versions under `ai_agent_state` is migrated into the first assessment once.
+  useEffect(() => {
+    (async () => {
+      try {
+        const access = await fetch('/api/session').then(r => (r.ok ? r.json() : null)).catch(() => null);
+        setSession(access);
+        if (access?.required && !access.signedIn) return;
+        const id = localStorage.getItem('ai_assessment_id');
+        if (id) {
+          const res = await fetch(`/api/assessments/${encodeURIComponent(id)}`);
+          if (res.ok) {
+            applyAssessment((await res.json()).assessment);
+            refreshWorkspaces();
+            return;
+          }
+        }
+        let legacy: AgentState | undefined;
+        try { const s = localStorage.getItem('ai_agent_state'); if (s) legacy = JSON.parse(s); } catch {}
+        const res = await fetch('/api/assessments', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ state: legacy, source: 'import', message: legacy ? 'Migrated from browser storage' : undefined }),
+        });
+        if (!res.ok) throw new Error(i18n.t('storage.createFailed', { status: res.status }));
+        applyAssessment((await res.json()).assessment);
+        refreshWorkspaces();
+        try { localStorage.removeItem('ai_agent_state'); } catch {}
+      } catch (error: any) {
+        setStorageError(error?.message || i18n.t('storage.loadFailed'));
+      }
+    })();
+  }, [applyAssessment, refreshWorkspaces]);
+
+  // Saves local edits of the open assessment; returns false when they could not be saved.
+  const saveSnapshot = useCallback(async (body: string): Promise<boolean> => {
+    if (!assessmentId) return false;
+    const pending = pendingChangeRef.current;
+    try {
+      const res = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...JSON.parse(body),
+          version: versionRef.current,
+          source: pending.source,
+          message: pending.notes.join('; ') || undefined,
+        }),
+      });
+      if (res.status === 409) {
+        const latest = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}`);
+        if (latest.ok) applyAssessment((await latest.json()).assessment);
+        setStorageError(i18n.t('storage.conflict'));
+        return false;
+      }
+      if (!res.ok) throw new Error(i18n.t('storage.saveFailed', { status: res.status }));
+      const { assessment } = await res.json();
+      versionRef.current = assessment.version;
+      lastSavedRef.current = body;
+      if (pendingChangeRef.current === pending) pendingChangeRef.current = { source: 'manual', notes: [] };
+      setChanges(assessment.changes || []);
+      setStorageError(null);
+      return true;
+    } catch (error: any) {
+      setStorageError(error?.message || i18n.t('storage.saveFailedGeneric'));
+      return false;
+    }
+  }, [assessmentId, applyAssessment]);
+
+  // A save of the same snapshot that is already running is shared rather than repeated.
+  const persist = useCallback((body: string): Promise<boolean> => {
+    if (body === lastSavedRef.current) return Promise.resolve(true);
+    if (savingRef.current?.body === body) return savingRef.current.done;
+    const done = saveSnapshot(body).finally(() => {
+      if (savingRef.current?.done === done) savingRef.current = null;
+    });
+    savingRef.current = { body, done };
+    return done;
+  }, [saveSnapshot]);
+
+  // Debounced save of local edits; skipped while a reply is in flight because the chat
+  // API persists the exchange itself.
   useEffect(() => {
-    try { localStorage.setItem('ai_agent_state', JSON.stringify(agentState)); } catch {}
-  }, [agentState]);
+    if (!assessmentId || loading) return;
+    const body = snapshot(agentState, messages);
+    if (body === lastSavedRef.current) return;
+    const timer = setTimeout(() => persist(body), 500);
+    return () => clearTimeout(timer);
+  }, [assessmentId, agentState, messages, loading, persist]);
+
+  // Saves pending edits before a chat turn or leaving or copying the open workspace, so the debounce cannot drop them.
+  const flushSave = () => persist(snapshot(agentState, messages));
+
+  const workspaceRequest = async (url: string, init?: RequestInit) => {
+    const res = await fetch(url, init);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data?.error || t('chat.requestFailed', { status: res.status }));
+    return data;
+  };
+
+  const openWorkspace = async (id: string) => {
+    if (id === assessmentId) return;
+    setStorageError(null);
+    try {
+      if (!(await flushSave())) return;
+      applyAssessment((await workspaceRequest(`/api/assessments/${encodeURIComponent(id)}`)).assessment);
+    } catch (error: any) {
+      setStorageError(error?.message || t('storage.loadFailed'));
+    }
+    refreshWorkspaces();
+  };
+
+  const createWorkspace = async (name: string) => {
+    setStorageError(null);
+    try {
+      if (!(await flushSave())) return;
+      const data = await workspaceRequest('/api/assessments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      applyAssessment(data.assessment);
+    } catch (error: any) {
+      setStorageError(error?.message || t('workspaces.actionFailed'));
+    }
+    refreshWorkspaces();
+  };
+
+  const duplicateWorkspace = async (name: string) => {
+    if (!assessmentId) return;
+    setStorageError(null);
+    try {
+      if (!(await flushSave())) return;
+      const data = await workspaceRequest('/api/assessments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicateOf: assessmentId, name }),
+      });
+      applyAssessment(data.assessment);
+    } catch (error: any) {
+      setStorageError(error?.message || t('workspaces.actionFailed'));
+    }
+    refreshWorkspaces();
+  };
+
+  // Renames and archive changes bump the version of the open assessment, so the next save is not stale.
+  const patchWorkspace = async (id: string, patch: { name?: string; archived?: boolean }) => {
+    setStorageError(null);
+    try {
+      const { assessment } = await workspaceRequest(`/api/assessments/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...patch, ...(id === assessmentId ? { version: versionRef.current } : {}) }),
+      });
+      if (id === assessmentId) versionRef.current = assessment.version;
+    } catch (error: any) {
+      setStorageError(error?.message || t('workspaces.actionFailed'));
+    }
+    refreshWorkspaces();
+  };
+
+  // After archiving or deleting the open workspace, continue in the most recent other one.
+  const leaveWorkspace = async () => {
+    const next = workspaces.find(w => w.id !== assessmentId && !w.archivedAt);
+    if (next) {
+      applyAssessment((await workspaceRequest(`/api/assessments/${encodeURIComponent(next.id)}`)).assessment);
+      return;
+    }
+    const data = await workspaceRequest('/api/assessments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    applyAssessment(data.assessment);
+  };
+
+  const archiveWorkspace = async () => {
+    if (!assessmentId) return;
+    setStorageError(null);
+    try {
+      if (!(await flushSave())) return;
+      await workspaceRequest(`/api/assessments/${encodeURIComponent(assessmentId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived: true, version: versionRef.current }),
+      });
+      await leaveWorkspace();
+    } catch (error: any) {
+      setStorageError(error?.message || t('workspaces.actionFailed'));
+    }
+    refreshWorkspaces();
+  };
+
+  const deleteWorkspace = async () => {
+    if (!assessmentId) return;
+    setStorageError(null);
+    try {
+      const res = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}`, { method: 'DELETE' });
+      if (!res.ok && res.status !== 404) throw new Error(t('chat.requestFailed', { status: res.status }));
+      await leaveWorkspace();
+    } catch (error: any) {
+      setStorageError(error?.message || t('workspaces.actionFailed'));
+    }
+    refreshWorkspaces();
+  };
 
   useEffect(() => {
     setOrgDraft({
@@ -49,31 +342,210 @@ export default function Home() {
     });
   }, [agentState.org?.name, agentState.org?.country, agentState.org?.industry, agentState.org?.size]);
 
-  const roleOptions = ['Provider', 'Deployer', 'Importer', 'Distributor', 'Manufacturer', 'Other'];
+  const friaUseCases = (agentState.useCases || []).filter(u => friaRequired(u, rolesForUseCase(agentState, u)));
+  const orgRoles = organisationRoles(agentState);
 
   const activeStep = (() => {
-    if (!agentState?.roles || agentState.roles.length === 0) return 1;
+    if (orgRoles.length === 0) return 1;
+    if (friaUseCases.some(u => friaFor(agentState, u).status !== 'complete')) return 3;
     return 2;
   })();
 
+  const noteChange = (note: string, source: 'manual' | 'import' = 'manual') => {
+    const prev = pendingChangeRef.current;
+    pendingChangeRef.current = {
+      source: source === 'import' || prev.source === 'import' ? 'import' : 'manual',
+      notes: prev.notes.includes(note) ? prev.notes : [...prev.notes, note],
+    };
+  };
+
+  const revertChange = async (action: 'undo' | 'restore', changeId: string) => {
+    if (!assessmentId) return;
+    setHistoryNotice(null);
+    try {
+      const res = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}/history`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, changeId, version: versionRef.current }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409) {
+        const latest = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}`);
+        if (latest.ok) applyAssessment((await latest.json()).assessment);
+        setHistoryNotice(t('history.conflict'));
+        return;
+      }
+      if (!res.ok) throw new Error(data?.error || t('chat.requestFailed', { status: res.status }));
+      applyAssessment(data.assessment);
+      if (Array.isArray(data.skipped) && data.skipped.length > 0) {
+        setHistoryNotice(t('history.skipped', { count: data.skipped.length }));
+      }
+    } catch (error: any) {
+      setHistoryNotice(error?.message || t('history.revertFailed'));
+    }
+  };
+
+  // Uploads only touch the assessment's documents, so local unsaved edits stay valid; the
+  // version is advanced so the next save is not rejected as stale. A jump of more than one
+  // means someone else saved in between, so their state is loaded as on a conflict.
+  const syncDocuments = async (data: any) => {
+    setDocuments(Array.isArray(data?.documents) ? data.documents : []);
+    if (typeof data?.version !== 'number' || !assessmentId) return;
+    if (data.version === (versionRef.current ?? 0) + 1) {
+      versionRef.current = data.version;
+      return;
+    }
+    const latest = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}`).catch(() => null);
+    if (latest?.ok) applyAssessment((await latest.json()).assessment);
+    setStorageError(t('storage.conflict'));
+  };
+
+  const uploadDocuments = async (files: File[]) => {
+    if (!assessmentId) return;
+    setUploading(true);
+    setDocumentError(null);
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const body = new FormData();
+        body.append('file', file);
+        const res = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}/documents`, { method: 'POST', body });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || t('chat.requestFailed', { status: res.status }));
+        await syncDocuments(data);
+      } catch (error: any) {
+        failed.push(error?.message || t('documents.uploadFailed'));
+      }
+    }
+    if (failed.length > 0) setDocumentError(failed.join(' '));
+    setUploading(false);
+  };
+
+  const removeDocument = async (documentId: string) => {
+    if (!assessmentId) return;
+    setDocumentError(null);
+    try {
+      const res = await fetch(
+        `/api/assessments/${encodeURIComponent(assessmentId)}/documents/${encodeURIComponent(documentId)}`,
+        { method: 'DELETE' }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || t('chat.requestFailed', { status: res.status }));
+      await syncDocuments(data);
+    } catch (error: any) {
+      setDocumentError(error?.message || t('documents.removeFailed'));
+    }
+  };
+
   const mergeState = (update?: Partial<AgentState>) => {
     if (!update) return;
+    setAgentState(prev => mergeAgentState(prev, update));
+  };
+
+  const upsertUseCase = (u: NonNullable<AgentState['useCases']>[number]) => {
+    noteChange(`Edited use case "${u.name || u.id}"`);
+    setAgentState(prev => {
+      const list = prev.useCases || [];
+      const exists = list.some(x => x.id === u.id);
+      return { ...prev, useCases: exists ? list.map(x => (x.id === u.id ? u : x)) : [...list, u] };
+    });
+  };
+
+  const upsertObligation = (record: ObligationRecord) => {
+    noteChange('Updated obligation tracking');
+    setAgentState(prev => {
+      const list = prev.obligations || [];
+      const exists = list.some(x => x.id === record.id);
+      return { ...prev, obligations: exists ? list.map(x => (x.id === record.id ? record : x)) : [...list, record] };
+    });
+  };
+
+  const upsertFria = (record: FriaRecord) => {
+    noteChange('Updated fundamental rights impact assessment');
+    setAgentState(prev => {
+      const list = prev.frias || [];
+      const exists = list.some(x => x.useCaseId === record.useCaseId);
+      return { ...prev, frias: exists ? list.map(x => (x.useCaseId === record.useCaseId ? record : x)) : [...list, record] };
+    });
+  };
+
+  const upsertTransparencyNotice = (notice: TransparencyNotice) => {
+    noteChange('Updated transparency notices');
+    setAgentState(prev => {
+      const list = prev.transparency || [];
+      const exists = list.some(x => x.useCaseId === notice.useCaseId);
+      return { ...prev, transparency: exists ? list.map(x => (x.useCaseId === notice.useCaseId ? notice : x)) : [...list, notice] };
+    });
+  };
+
+  const upsertRoleAssignment = (assignment: RoleAssignment) => {
+    noteChange(`Answered role questions for ${assignment.useCaseId}`);
+    setAgentState(prev => {
+      const list = prev.roleAssignments || [];
+      const exists = list.some(x => x.useCaseId === assignment.useCaseId);
+      return {
+        ...prev,
+        roleAssignments: exists ? list.map(x => (x.useCaseId === assignment.useCaseId ? assignment : x)) : [...list, assignment],
+      };
+    });
+  };
+
+  const upsertVendor = (entry: VendorEntry) => {
+    noteChange(`Updated registry entry "${entry.name}"`);
+    setAgentState(prev => {
+      const list = prev.vendors || [];
+      const exists = list.some(x => x.id === entry.id);
+      return {
+        ...prev,
+        vendors: exists ? list.map(x => (x.id === entry.id ? entry : x)) : [...list, entry],
+        // Linked use cases show the entry's name as their model.
+        useCases: (prev.useCases || []).map(u => (u.vendorId === entry.id ? { ...u, model: entry.name } : u)),
+      };
+    });
+  };
+
+  const deleteVendor = (id: string) => {
+    noteChange(`Deleted registry entry ${id}`);
     setAgentState(prev => ({
       ...prev,
-      ...(update?.org ? { org: { ...(prev.org || {}), ...(update.org || {}) } } : {}),
-      ...(update?.roles ? { roles: update.roles } : {}),
-      ...(update?.useCases
-        ? {
-            useCases: (() => {
-              const existing = prev.useCases || [];
-              const incoming = update.useCases || [];
-              const byId = new Map<string, any>();
-              for (const u of existing) byId.set(u.id, u);
-              for (const u of incoming) byId.set(u.id, { ...(byId.get(u.id) || {}), ...u });
-              return Array.from(byId.values());
-            })(),
-          }
-        : {}),
+      vendors: (prev.vendors || []).filter(v => v.id !== id),
+      // The model name stays on the use case as free text.
+      useCases: (prev.useCases || []).map(u => (u.vendorId === id ? { ...u, vendorId: undefined } : u)),
+    }));
+  };
+
+  const linkModels = () => {
+    noteChange('Registered free-text models');
+    setAgentState(prev => ({ ...prev, ...linkFreeTextModels(prev, isGpaiModel) }));
+  };
+
+  const removeRoleAssignment = (useCaseId: string) => {
+    noteChange(`Reset roles for ${useCaseId}`);
+    setAgentState(prev => ({ ...prev, roleAssignments: (prev.roleAssignments || []).filter(a => a.useCaseId !== useCaseId) }));
+  };
+
+  const draftFriaSection = async (useCaseId: string, section: FriaSectionId, answers: FriaRecord['answers']) => {
+    if (!assessmentId) throw new Error(t('fria.draftFailed'));
+    const res = await fetch(`/api/assessments/${encodeURIComponent(assessmentId)}/fria/draft`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ useCaseId, section, answers, locale: i18n.language }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data?.error || t('chat.requestFailed', { status: res.status }));
+    return String(data?.draft || '');
+  };
+
+  const deleteUseCase = (id: string) => {
+    noteChange(`Deleted use case ${id}`);
+    setAgentState(prev => ({
+      ...prev,
+      useCases: (prev.useCases || []).filter(u => u.id !== id),
+      roadmap: (prev.roadmap || []).filter(e => e.useCaseId !== id),
+      obligations: (prev.obligations || []).filter(o => o.useCaseId !== id),
+      frias: (prev.frias || []).filter(f => f.useCaseId !== id),
+      transparency: (prev.transparency || []).filter(n => n.useCaseId !== id),
+      roleAssignments: (prev.roleAssignments || []).filter(a => a.useCaseId !== id),
     }));
   };
 
@@ -125,49 +597,132 @@ export default function Home() {
     );
   };
 
+  const applyChatResult = (data: ChatResponse) => {
+    if ('conversationSummary' in (data || {})) summaryRef.current = data.conversationSummary;
+    if (data?.assessment) {
+      // The server already merged the updates and stored the exchange.
+      applyAssessment(data.assessment);
+      return;
+    }
+    if (data?.stateUpdates) {
+      mergeState(data.stateUpdates);
+    }
+    if (Array.isArray(data?.useCases) && data.useCases.length > 0) {
+      mergeState({ useCases: data.useCases });
+    }
+    if (Array.isArray(data?.roadmap) && data.roadmap.length > 0) {
+      setAgentState(prev => ({ ...prev, roadmap: mergeRoadmap(prev.roadmap, data.roadmap, new Date(), taskDeadlines(prev)) }));
+    }
+  };
+
   const sendMessage = async (text: string) => {
     const userText = text.trim();
     if (!userText || loading) return;
-    setMessages(prev => [...prev, { text: userText, sender: 'user' }]);
-    setMessage('');
     setLoading(true);
+    // The server stores the exchange on top of the saved assessment, so edits still inside
+    // the debounce have to land first.
+    if (assessmentId && !(await flushSave())) {
+      setLoading(false);
+      return;
+    }
+    setMessages(prev => [...prev, { text: userText, sender: 'user', at: new Date().toISOString() }]);
+    setMessage('');
+    const updateLast = (patch: Partial<ChatMessage>) =>
+      setMessages(prev => prev.map((m, i) => (i === prev.length - 1 ? { ...m, ...patch } : m)));
+    let streamed = '';
+    let gotFinal = false;
     try {
       const res = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ input: userText, state: agentState }),
+        body: JSON.stringify({
+          input: userText,
+          state: agentState,
+          stream: true,
+          locale: i18n.language,
+          // The server reads history from the stored assessment; otherwise send it along.
+          ...(assessmentId
+            ? { assessmentId }
+            : {
+                transcript: messages.filter(m => !m.streaming && !m.interrupted && !m.failed).map(({ sender, text }) => ({ sender, text })),
+                summary: summaryRef.current,
+              }),
+        }),
       });
       if (!res.ok) {
         const err = await res.json().catch(() => ({}));
-        const msg = err?.error || `Request failed with ${res.status}`;
-        setMessages(prev => [...prev, { text: msg, sender: 'bot' }]);
-      } else {
-        const data = await res.json();
-        const reply = (data?.reply || '').toString().trim() || '(no response)';
-        setMessages(prev => [...prev, { text: reply, sender: 'bot' }]);
-        if (Array.isArray(data?.suggestions)) setSuggestions(data.suggestions);
-        if (Array.isArray(data?.guidance)) setGuidance(data.guidance);
-        if (Array.isArray((data as any)?.questions)) setQuestions((data as any).questions);
-        if (data?.stateUpdates) {
-          mergeState(data.stateUpdates);
-        }
-        if (Array.isArray((data as any)?.useCases) && (data as any).useCases.length > 0) {
-          mergeState({ useCases: (data as any).useCases });
+        if (err?.code === 'rate_limited') {
+          // Worth retrying once the window resets, unlike the other rejections.
+          const msg = t('guardrails.errors.rateLimited', { seconds: err.retryAfter || 60 });
+          setMessages(prev => [...prev, { text: msg, sender: 'bot', interrupted: true, failed: true, retryText: userText }]);
+          return;
         }
+        const known: Record<string, string> = {
+          input_too_large: t('guardrails.errors.inputTooLarge'),
+          state_too_large: t('guardrails.errors.stateTooLarge'),
+          prompt_injection: t('guardrails.errors.promptInjection'),
+          budget_exceeded: t('guardrails.errors.budgetExceeded'),
+          model_unpriced: t('guardrails.errors.modelUnpriced'),
+        };
+        const msg = known[err?.code] || err?.error || t('chat.requestFailed', { status: res.status });
+        setMessages(prev => [...prev, { text: msg, sender: 'bot', failed: true }]);
+      } else {
+        setMessages(prev => [...prev, { text: '', sender: 'bot', streaming: true }]);
+        await readEventStream(res, ({ event, data }) => {
+          if (event === 'delta' && typeof data?.text === 'string') {
+            streamed += data.text;
+            updateLast({ text: streamed });
+          } else if (event === 'tool') {
+            if (!streamed) updateLast({ text: t('chat.researching') });
+          } else if (event === 'final') {
+            gotFinal = true;
+            const reply = (data?.reply || '').toString().trim() || streamed.trim() || t('chat.noResponse');
+            const notes = { streaming: false, guardrails: data?.guardrails || undefined, downgraded: !!data?.usage?.downgradedFrom || undefined };
+            applyChatResult(data);
+            // A stored assessment comes back with the reply and its payload already in the transcript.
+            updateLast(data?.assessment ? notes : { text: reply, at: new Date().toISOString(), payload: payloadOf(data), ...notes });
+          } else if (event === 'error') {
+            throw new Error(data?.error || t('chat.streamFailed'));
+          }
+        });
+        if (!gotFinal) throw new Error(t('chat.connectionClosed'));
       }
     } catch (error: any) {
-      setMessages(prev => [...prev, { text: error?.message || 'Network error', sender: 'bot' }]);
+      // Keep whatever prose already arrived and offer a retry instead of losing the turn.
+      const msg = error?.message || t('chat.networkError');
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        if (last?.sender === 'bot' && last.streaming) {
+          return prev.map((m, i) => i === prev.length - 1
+            ? { ...m, text: streamed.trim() || msg, streaming: false, interrupted: true, failed: !streamed.trim() || undefined, retryText: userText }
+            : m);
+        }
+        return [...prev, { text: msg, sender: 'bot', interrupted: true, failed: true, retryText: userText }];
+      });
     } finally {
       setLoading(false);
     }
   };
 
-  const selectRole = (role: string) => {
-    mergeState({ roles: [role] });
-    setSuggestions([]);
-    setMessages(prev => [...prev, { sender: 'bot', text: `Role set to ${role}. Please provide organization details below.` }]);
+  const retryMessage = (index: number, text: string) => {
+    // Drop the interrupted reply and the prompt that caused it; sendMessage re-adds the prompt.
+    setMessages(prev => prev.filter((m, i) => i !== index && !(i === index - 1 && m.sender === 'user' && m.text === text)));
+    sendMessage(text);
   };
 
+  const selectRoles = (roles: string[]) => {
+    if (roles.length === 0) return;
+    noteChange(`Selected roles ${roles.join(', ')}`);
+    mergeState({ roles });
+    setMessages(prev => [
+      ...prev,
+      { sender: 'bot', text: t('chat.roleSet', { role: roles.map(r => t(`role.${r}`)).join(', ') }), at: new Date().toISOString() },
+    ]);
+  };
+
+  const toggleRoleDraft = (role: string) =>
+    setRoleDraft(prev => (prev.includes(role) ? prev.filter(r => r !== role) : [...prev, role]));
+
   const saveOrg = () => {
     const clean = {
       name: orgDraft.name.trim(),
@@ -175,8 +730,18 @@ export default function Home() {
       industry: orgDraft.industry.trim(),
       size: orgDraft.size.trim(),
     };
+    noteChange('Saved organisation details');
     mergeState({ org: clean });
-    setMessages(prev => [...prev, { sender: 'bot', text: 'Organization details saved. Now please provide your AI use cases.' }]);
+    setMessages(prev => [...prev, { sender: 'bot', text: t('chat.orgSaved'), at: new Date().toISOString() }]);
+  };
+
+  // Clears the chat but keeps the inventory and everything else in the state; the stored
+  // summary is dropped with the messages it covered.
+  const newConversation = () => {
+    if (!window.confirm(t('chat.newConversationConfirm'))) return;
+    summaryRef.current = undefined;
+    setMessage('');
+    setMessages([{ sender: 'bot', text: t('chat.newConversationStarted'), at: new Date().toISOString() }]);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -186,6 +751,9 @@ export default function Home() {
 
   const applySuggestion = (s: string) => setMessage(s);
 
+  const lastMessage = messages[messages.length - 1];
+  const suggestions = (lastMessage?.sender === 'bot' && !lastMessage.streaming && lastMessage.payload?.suggestions) || [];
+
   const renderObject = (obj: any): JSX.Element => {
     if (typeof obj !== 'object' || obj === null) return <span>{String(obj)}</span>;
     if (Array.isArray(obj)) {
@@ -196,65 +764,205 @@ export default function Home() {
     ))}</ul>;
   };
 
+  const signOut = async () => {
+    await fetch('/api/session', { method: 'DELETE' }).catch(() => {});
+    window.location.reload();
+  };
+
+  if (session?.required && !session.signedIn) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+        <AccessKeyForm onSignedIn={() => window.location.reload()} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="sticky top-0 z-10 w-full border-b bg-white/70 backdrop-blur">
         <div className="mx-auto max-w-5xl px-4 py-3 flex justify-between items-center">
-          <div className="font-semibold">EU AI Act Assistant</div>
+          <div className="font-semibold">{t('app.title')}</div>
+          <div className="flex items-center gap-4 text-xs">
+          {assessmentId && (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500">{t('app.downloadDossier')}</span>
+              {(['pdf', 'html', 'md'] as const).map(f => (
+                <a
+                  key={f}
+                  href={`/api/assessments/${encodeURIComponent(assessmentId)}/report?format=${f}`}
+                  target={f === 'html' ? '_blank' : undefined}
+                  rel="noreferrer"
+                  className="rounded-full border px-2 py-0.5 uppercase"
+                >
+                  {f === 'md' ? t('app.markdown') : f}
+                </a>
+              ))}
+            </div>
+          )}
+            <label className="flex items-center gap-1 text-gray-500">
+              {t('app.language')}
+              <select value={i18n.language} onChange={e => changeLocale(e.target.value)} className="rounded border bg-white px-1 py-0.5 text-gray-900">
+                {Object.entries(LOCALES).map(([code, l]) => <option key={code} value={code}>{l.label}</option>)}
+              </select>
+            </label>
+            {session?.required && (
+              <button onClick={signOut} className="text-gray-500 underline">
+                {t('access.signOut')}
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="mx-auto max-w-5xl px-4 pb-2">
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            currentId={assessmentId}
+            disabled={loading}
+            portfolioOpen={portfolioOpen}
+            onOpen={openWorkspace}
+            onCreate={createWorkspace}
+            onRename={name => assessmentId && patchWorkspace(assessmentId, { name })}
+            onDuplicate={duplicateWorkspace}
+            onArchive={archiveWorkspace}
+            onDelete={deleteWorkspace}
+            onTogglePortfolio={() => {
+              // Counts change with every edit, so they are fetched fresh when the overview opens.
+              if (!portfolioOpen) refreshWorkspaces();
+              setPortfolioOpen(open => !open);
+            }}
+          />
         </div>
       </header>
 
       <main className="flex-1">
         <div className="mx-auto w-full max-w-3xl px-4 mt-4">
 
+          {storageError && (
+            <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800">{storageError}</div>
+          )}
+
+          {portfolioOpen && (
+            <PortfolioOverview
+              workspaces={workspaces}
+              currentId={assessmentId}
+              disabled={loading}
+              onOpen={openWorkspace}
+              onRestore={id => patchWorkspace(id, { archived: false })}
+            />
+          )}
+
           <div className="mb-2 flex justify-center gap-4 text-sm">
-            <div className={activeStep===1?'font-semibold':'text-gray-500'}>1. Role</div>
+            <div className={activeStep===1?'font-semibold':'text-gray-500'}>{t('steps.role')}</div>
             <div>→</div>
-            <div className={activeStep===2?'font-semibold':'text-gray-500'}>2. Use cases</div>
+            <div className={activeStep===2?'font-semibold':'text-gray-500'}>{t('steps.useCases')}</div>
+            {friaUseCases.length > 0 && (
+              <>
+                <div>→</div>
+                <div className={activeStep===3?'font-semibold':'text-gray-500'}>{t('steps.fria')}</div>
+              </>
+            )}
           </div>
 
-          {agentState.useCases && agentState.useCases.length > 0 && (
-            <div className="mb-4 rounded-md border bg-white p-4">
-              <div className="mb-2 text-sm font-semibold">AI Use Cases ({agentState.useCases.length})</div>
-              <div className="space-y-3">
-                {agentState.useCases.map((u) => (
-                  <div key={u.id} className="rounded border p-3">
-                    <div className="font-medium">{u.name || 'Untitled use case'}</div>
-                    {u.description && <div className="text-sm text-gray-600 mt-1">{u.description}</div>}
-                    <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
-                      <div><span className="text-gray-500">Process:</span> {u.process || '-'}</div>
-                      <div><span className="text-gray-500">Risk:</span> {u.risk || '-'}</div>
-                      <div><span className="text-gray-500">Owner:</span> {u.owner || '-'}</div>
-                      <div className="md:col-span-3"><span className="text-gray-500">Jurisdictions:</span> {(u.jurisdictions||[]).join(', ') || '-'}</div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {assessmentId && (
+            <DocumentsPanel
+              documents={documents}
+              uploading={uploading}
+              error={documentError}
+              onUpload={uploadDocuments}
+              onRemove={removeDocument}
+            />
+          )}
+
+          {assessmentId && (
+            <UseCaseInventory
+              useCases={agentState.useCases || []}
+              vendors={agentState.vendors || []}
+              onUpdate={upsertUseCase}
+              onDelete={deleteUseCase}
+              onImport={rows => {
+                noteChange(`Imported ${rows.length} use case(s) from file`, 'import');
+                mergeState({ useCases: rows });
+              }}
+            />
+          )}
+
+          {assessmentId && (
+            <VendorRegistry
+              vendors={agentState.vendors || []}
+              useCases={agentState.useCases || []}
+              onUpdate={upsertVendor}
+              onDelete={deleteVendor}
+              onLinkModels={linkModels}
+            />
+          )}
+
+          <RolesPanel state={agentState} onUpdate={upsertRoleAssignment} onReset={removeRoleAssignment} />
+
+          {assessmentId && (
+            <ObligationsMatrix
+              rows={buildObligationMatrix(agentState)}
+              hasRoles={orgRoles.length > 0}
+              onUpdate={upsertObligation}
+            />
+          )}
+
+          {assessmentId && (
+            <FriaWizard
+              state={agentState}
+              exportHref={(useCaseId, format) =>
+                `/api/assessments/${encodeURIComponent(assessmentId)}/fria?useCaseId=${encodeURIComponent(useCaseId)}&format=${format}`
+              }
+              onUpdate={upsertFria}
+              onDraft={draftFriaSection}
+            />
           )}
 
+          {assessmentId && <TransparencyPanel state={agentState} onUpdate={upsertTransparencyNotice} />}
+
+          <TimelinePanel entries={buildTimeline(agentState)} />
+
+          <RoadmapPanel
+            roadmap={agentState.roadmap || []}
+            useCaseNames={Object.fromEntries((agentState.useCases || []).map(u => [u.id, u.name]))}
+            calendarHref={assessmentId ? `/api/assessments/${encodeURIComponent(assessmentId)}/calendar` : undefined}
+            onChange={roadmap => {
+              noteChange('Updated roadmap tasks');
+              setAgentState(prev => ({ ...prev, roadmap }));
+            }}
+          />
+
+          <HistoryPanel
+            changes={changes}
+            disabled={loading}
+            notice={historyNotice}
+            onUndo={id => revertChange('undo', id)}
+            onRestore={id => revertChange('restore', id)}
+          />
+
           {messages.length === 0 && (
             <div className="min-h-[60vh] flex flex-col items-center justify-center text-center">
-              <h1 className="text-2xl font-semibold mb-6">Hey! Ready to dive in?</h1>
-              {!agentState.roles || agentState.roles.length===0 && (
-                <div className="mb-6 w-full">
-                  <div className="text-sm text-gray-600 mb-2">Select your role</div>
+              <h1 className="text-2xl font-semibold mb-6">{t('welcome.heading')}</h1>
+              {orgRoles.length===0 && (
+                <div className="mb-6 w-full max-w-3xl">
+                  <div className="text-sm text-gray-600 mb-2">{t('welcome.roleQuestions')}</div>
+                  <RoleQuestionnaire onSubmit={answers => selectRoles(determineRoles(answers).roles)} />
+                  <div className="mt-4 text-sm text-gray-600 mb-2">{t('welcome.selectRole')}</div>
                   <div className="flex flex-wrap justify-center gap-2">
-                    {roleOptions.map(r => <button key={r} onClick={()=>selectRole(r)} className="rounded-full border px-3 py-1 text-sm">{r}</button>)}
+                    {ROLES.map(r => <button key={r} onClick={()=>toggleRoleDraft(r)} className={`rounded-full border px-3 py-1 text-sm ${roleDraft.includes(r) ? 'bg-black text-white' : ''}`}>{t(`role.${r}`)}</button>)}
+                    <button onClick={()=>selectRoles(roleDraft)} disabled={roleDraft.length===0} className="rounded-full border px-3 py-1 text-sm disabled:opacity-50">{t('welcome.confirmRoles')}</button>
                   </div>
                 </div>
               )}
-              {agentState.roles && agentState.roles.length>0 && (
+              {orgRoles.length>0 && (
                 <div className="mb-6 w-full max-w-3xl text-left">
-                  <div className="text-sm text-gray-600 mb-2">Organization information</div>
+                  <div className="text-sm text-gray-600 mb-2">{t('welcome.orgInfo')}</div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <input value={orgDraft.name} onChange={e=>setOrgDraft(v=>({...v,name:e.target.value}))} placeholder="Name" className="w-full rounded border px-3 py-2 outline-none"/>
-                    <input value={orgDraft.country} onChange={e=>setOrgDraft(v=>({...v,country:e.target.value}))} placeholder="Country" className="w-full rounded border px-3 py-2 outline-none"/>
-                    <input value={orgDraft.industry} onChange={e=>setOrgDraft(v=>({...v,industry:e.target.value}))} placeholder="Industry" className="w-full rounded border px-3 py-2 outline-none"/>
-                    <input value={orgDraft.size} onChange={e=>setOrgDraft(v=>({...v,size:e.target.value}))} placeholder="Size (e.g., 120)" className="w-full rounded border px-3 py-2 outline-none"/>
+                    <input value={orgDraft.name} onChange={e=>setOrgDraft(v=>({...v,name:e.target.value}))} placeholder={t('welcome.name')} className="w-full rounded border px-3 py-2 outline-none"/>
+                    <input value={orgDraft.country} onChange={e=>setOrgDraft(v=>({...v,country:e.target.value}))} placeholder={t('welcome.country')} className="w-full rounded border px-3 py-2 outline-none"/>
+                    <input value={orgDraft.industry} onChange={e=>setOrgDraft(v=>({...v,industry:e.target.value}))} placeholder={t('welcome.industry')} className="w-full rounded border px-3 py-2 outline-none"/>
+                    <input value={orgDraft.size} onChange={e=>setOrgDraft(v=>({...v,size:e.target.value}))} placeholder={t('welcome.size')} className="w-full rounded border px-3 py-2 outline-none"/>
                   </div>
                   <div className="mt-3">
-                    <button onClick={saveOrg} className="rounded bg-black px-4 py-2 text-white">Save organization</button>
+                    <button onClick={saveOrg} className="rounded bg-black px-4 py-2 text-white">{t('welcome.saveOrg')}</button>
                   </div>
                 </div>
               )}
@@ -263,6 +971,23 @@ export default function Home() {
 
           {messages.length > 0 && (
             <div className="py-6 pb-28">
+              <div className="mb-4 flex flex-wrap items-center justify-end gap-2 text-xs">
+                {assessmentId && (
+                  <>
+                    <span className="text-gray-500">{t('chat.exportTranscript')}</span>
+                    {(['md', 'json'] as const).map(f => (
+                      <a
+                        key={f}
+                        href={`/api/assessments/${encodeURIComponent(assessmentId)}/transcript?format=${f}`}
+                        className="rounded-full border px-2 py-0.5 uppercase"
+                      >
+                        {f === 'md' ? t('app.markdown') : f}
+                      </a>
+                    ))}
+                  </>
+                )}
+                <button onClick={newConversation} disabled={loading} className="rounded-full border px-3 py-0.5 disabled:opacity-50">{t('chat.newConversation')}</button>
+              </div>
               <div className="space-y-6">
                 {messages.map((msg,index)=>{
                   let isJSON=false; let parsed:any=null;
@@ -284,26 +1009,82 @@ export default function Home() {
                             {isJSON ? (
                               <div className="bg-gray-50 border rounded-md p-3 text-sm">{renderObject(parsed)}</div>
                             ) : (
-                              renderFormatted(msg.text)
+                              msg.streaming && !msg.text ? <span className="text-gray-400">…</span> : renderFormatted(msg.text)
                             )}
                           </div>
-                          {guidance.length>0 && (
+                          {msg.payload?.citations && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {t('chat.sources', { names: msg.payload.citations.map(c => c.name).join(', ') })}
+                            </div>
+                          )}
+                          {msg.payload?.sources && (
+                            <ol className="mt-1 space-y-0.5 text-xs text-gray-500">
+                              {msg.payload.sources.map(s => (
+                                <li key={s.id}>
+                                  [{s.id}]{' '}
+                                  {s.url ? <a href={s.url} target="_blank" rel="noreferrer" className="underline">{s.title}</a> : s.title}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                          {msg.guardrails && (
+                            <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+                              {Object.values(msg.guardrails.redactions || {}).some(n => (n || 0) > 0) && (
+                                <div>{t('guardrails.redacted', { count: Object.values(msg.guardrails.redactions).reduce<number>((sum, n) => sum + (n || 0), 0) })}</div>
+                              )}
+                              {msg.guardrails.injection?.length > 0 && (
+                                <div className="text-amber-700">
+                                  {t('guardrails.injectionFlagged', { sources: Array.from(new Set(msg.guardrails.injection.map(f => f.source.replace(/^document:/, '')))).join(', ') })}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                          {msg.downgraded && <div className="mt-1 text-xs text-gray-500">{t('guardrails.downgraded')}</div>}
+                          {msg.interrupted && msg.retryText && (
+                            <div className="mt-2 flex items-center gap-2 text-xs text-amber-700">
+                              <span>{t('chat.interrupted')}</span>
+                              <button onClick={()=>retryMessage(index, msg.retryText!)} disabled={loading} className="rounded-full border px-2 py-0.5 disabled:opacity-50">{t('chat.retry')}</button>
+                            </div>
+                          )}
+                          {msg.payload?.guidance && (
                             <div className="mt-2">
-                              <div className="text-sm font-medium mb-1">Guidance</div>
+                              <div className="text-sm font-medium mb-1">{t('chat.guidance')}</div>
                               <ul className="list-disc pl-6 text-sm">
-                                {guidance.map((g,i)=>(<li key={i}>{g}</li>))}
+                                {msg.payload.guidance.map((g,i)=>(<li key={i}>{g}</li>))}
                               </ul>
                             </div>
                           )}
-                          {questions.length>0 && (
+                          {msg.payload?.questions && (
                             <div className="mt-2">
-                              <div className="text-sm font-medium mb-1">Questions</div>
+                              <div className="text-sm font-medium mb-1">{t('chat.questions')}</div>
                               <ul className="list-decimal pl-6 text-sm">
-                                {questions.map((q,i)=>(<li key={i}>{q}</li>))}
+                                {msg.payload.questions.map((q,i)=>(<li key={i}>{q}</li>))}
+                              </ul>
+                            </div>
+                          )}
+                          {msg.payload?.examples && (
+                            <div className="mt-2">
+                              <div className="text-xs text-gray-500 mb-1">{t('chat.examples')}</div>
+                              <div className="flex flex-wrap gap-2">
+                                {msg.payload.examples.map((ex,i)=>(
+                                  <button key={i} onClick={()=>applySuggestion(ex)} className="rounded-md border border-dashed px-2 py-1 text-left text-xs text-gray-700">{ex}</button>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                          {msg.payload?.roadmap && (
+                            <div className="mt-2">
+                              <div className="text-sm font-medium mb-1">{t('chat.roadmap')}</div>
+                              <ul className="list-disc pl-6 text-sm">
+                                {msg.payload.roadmap.map(entry => (
+                                  <li key={entry.useCaseId}>
+                                    {entry.useCaseName || entry.useCaseId}: {entry.tasks.map(task => task.title).join('; ')}
+                                  </li>
+                                ))}
                               </ul>
                             </div>
                           )}
-                          {suggestions.length>0 && (
+                          {index===messages.length-1 && suggestions.length>0 && (
                             <div className="mt-2 flex flex-wrap gap-2">
                               {suggestions.map((s,i)=>(
                                 <button key={i} onClick={()=>sendMessage(s)} className="rounded-full border px-3 py-1 text-sm">{s}</button>
@@ -334,11 +1115,11 @@ export default function Home() {
                         type="text"
                         value={message}
                         onChange={(e) => setMessage(e.target.value)}
-                        placeholder={(!agentState.roles || agentState.roles.length===0) ? 'Or choose a role above' : 'Ask anything'}
+                        placeholder={orgRoles.length===0 ? t('chat.placeholderRole') : t('chat.placeholder')}
                         className="w-full bg-transparent h-8 leading-8 text-sm outline-none"
                       />
                       <button type="submit" disabled={loading} className="shrink-0 rounded-full bg-black px-3 h-8 text-xs text-white disabled:opacity-50">
-                        {loading ? 'Sending...' : 'Send'}
+                        {loading ? t('chat.sending') : t('chat.send')}
                       </button>
                     </div>
                   </form>